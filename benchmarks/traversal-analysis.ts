@@ -33,7 +33,7 @@ function formatTime(ms: number): string {
 
 // Create test data
 const testData = Array.from({ length: TEST_SIZE }, (_, i) => `item-${i}`);
-const list = new DoubleLinkedList(...testData);
+const list = DoubleLinkedList.from(testData);
 const array = [...testData];
 
 console.log(`🔍 Traversal Performance Analysis (${TEST_SIZE.toLocaleString()} items, ${ITERATIONS} iterations)\n`);
@@ -0,0 +1,171 @@
+import { getNextNode, getNodeList, getNodeValue, setNodeValue } from '../../DoubleLinkedList/index.js';
+import { BoundedDeque } from '../index.js';
+
+describe('BoundedDeque', () => {
+  it('should reject invalid maximum lengths', () => {
+    expect(() => new BoundedDeque<number>({ maxLength: 0 })).toThrow(RangeError);
+    expect(() => new BoundedDeque<number>({ maxLength: 2.5 })).toThrow(RangeError);
+    expect(new BoundedDeque<number>({ maxLength: 3 }).getMaxLength()).toBe(3);
+  });
+
+  it('should work like a deque while below its maximum length', () => {
+    const deque = new BoundedDeque<string>({ maxLength: 5 }, 'b');
+    expect(deque.isEmpty()).toBe(false);
+    expect(getNodeValue(deque.push('c'))).toBe('c');
+    expect(getNodeValue(deque.unshift('a'))).toBe('a');
+    deque.insertAfterNode(deque.getHead()!, 'a2');
+    deque.insertBeforeNode(deque.getTail()!, 'b2');
+    expect([...deque]).toEqual(['a', 'a2', 'b', 'b2', 'c']);
+    expect(deque.isFull()).toBe(true);
+    expect(deque.get(-1)).toBe('c');
+    expect(getNodeValue(deque.getNodeAt(1))).toBe('a2');
+
+    expect(deque.pop()).toBe('c');
+    expect(deque.shift()).toBe('a');
+    expect(deque.remove(deque.getHead()!)).toBe(true);
+    expect(deque.toArray()).toEqual(['b', 'b2']);
+    expect(deque.isFull()).toBe(false);
+
+    deque.clear();
+    expect(deque.getLength()).toBe(0);
+  });
+
+  it('should hand out read-only nodes', () => {
+    const deque = new BoundedDeque<number>({ maxLength: 2 }, 1, 2);
+    const head = deque.getHead()!;
+
+    // Only checked by the compiler -- neither call is allowed on a read-only node
+    const bypassLimit = () => {
+      // @ts-expect-error -- the underlying list isn't exposed
+      getNodeList(head)?.append(3);
+      // @ts-expect-error -- nodes can't be written through
+      setNodeValue(head, 3);
+    };
+    expect(typeof bypassLimit).toBe('function');
+    expect(getNodeValue(getNextNode(head))).toBe(2);
+    expect(deque.splice(head, 1).toArray()).toEqual([1]);
+    expect([...deque]).toEqual([2]);
+  });
+
+  describe("'drop-oldest' policy", () => {
+    it('should evict from the opposite end and report evicted items', () => {
+      const evicted: string[][] = [];
+      const deque = new BoundedDeque<string>({ maxLength: 3, onEvict: (items) => evicted.push(items) }, 'a', 'b', 'c', 'd');
+      expect([...deque]).toEqual(['b', 'c', 'd']);
+      expect(evicted).toEqual([['a']]);
+
+      expect(getNodeValue(deque.append('e'))).toBe('e');
+      expect([...deque]).toEqual(['c', 'd', 'e']);
+
+      expect(getNodeValue(deque.prepend('z'))).toBe('z');
+      expect([...deque]).toEqual(['z', 'c', 'd']);
+      expect(evicted).toEqual([['a'], ['b'], ['e']]);
+    });
+
+    it('should evict from the head for inserts in the middle', () => {
+      const evicted: number[][] = [];
+      const deque = new BoundedDeque<number>({ maxLength: 3, onEvict: (items) => evicted.push(items) }, 1, 2, 3);
+
+      expect(getNodeValue(deque.insertAfterNode(deque.getHead()!, 10))).toBe(10);
+      expect([...deque]).toEqual([10, 2, 3]);
+
+      // Inserting before the head when full evicts the new item itself
+      expect(deque.insertBeforeNode(deque.getHead()!, 0)).toBeUndefined();
+      expect([...deque]).toEqual([10, 2, 3]);
+      expect(evicted).toEqual([[1], [0]]);
+    });
+
+    it('should let splice remove items before evicting', () => {
+      const evicted: Array<Array<number | string>> = [];
+      const deque = new BoundedDeque<number | string>({ maxLength: 4, onEvict: (items) => evicted.push(items) }, 1, 2, 3, 4);
+
+      const removed = deque.splice(2, 1, 'a', 'b');
+      expect([...removed]).toEqual([3]);
+      expect([...deque]).toEqual([2, 'a', 'b', 4]);
+      expect(evicted).toEqual([[1]]);
+
+      deque.splice(deque.getTail(), 1, 'x');
+      expect([...deque]).toEqual([2, 'a', 'b', 'x']);
+      expect(evicted).toEqual([[1]]);
+
+      deque.splice(undefined, 0, 'y', 'z');
+      expect([...deque]).toEqual(['b', 'x', 'y', 'z']);
+      expect(evicted).toEqual([[1], [2, 'a']]);
+    });
+  });
+
+  describe("'drop-newest' policy", () => {
+    it('should discard incoming items that do not fit', () => {
+      const evicted: number[][] = [];
+      const deque = new BoundedDeque<number>(
+        { maxLength: 3, overflow: 'drop-newest', onEvict: (items) => evicted.push(items) },
+        1,
+        2,
+        3,
+        4
+      );
+      expect([...deque]).toEqual([1, 2, 3]);
+      expect(evicted).toEqual([[4]]);
+
+      expect(deque.append(5)).toBeUndefined();
+      expect(deque.prepend(0)).toBeUndefined();
+      expect(deque.insertAfterNode(deque.getHead()!, 9)).toBeUndefined();
+      expect([...deque]).toEqual([1, 2, 3]);
+      expect(evicted).toEqual([[4], [5], [0], [9]]);
+
+      // Removed items make room for as many new ones as fit
+      expect([...deque.splice(0, 1, 10, 11, 12)]).toEqual([1]);
+      expect([...deque]).toEqual([10, 2, 3]);
+      expect(evicted).toEqual([[4], [5], [0], [9], [11, 12]]);
+    });
+  });
+
+  describe("'throw' policy", () => {
+    it('should throw without changing anything', () => {
+      const deque = new BoundedDeque<number>({ maxLength: 2, overflow: 'throw' }, 1, 2);
+      expect(() => deque.push(3)).toThrow(RangeError);
+      expect(() => deque.unshift(0)).toThrow(RangeError);
+      expect(() => deque.insertBeforeNode(deque.getTail()!, 0)).toThrow(RangeError);
+      expect(() => deque.splice(0, 1, 8, 9)).toThrow(RangeError);
+      expect([...deque]).toEqual([1, 2]);
+
+      // Replacing within the limit is fine
+      deque.splice(0, 1, 8);
+      expect([...deque]).toEqual([8, 2]);
+
+      expect(() => new BoundedDeque({ maxLength: 1, overflow: 'throw' }, 1, 2)).toThrow(RangeError);
+    });
+  });
+
+  describe("'reject' policy", () => {
+    it('should ignore insertions that do not fit without calling onEvict', () => {
+      const evicted: number[][] = [];
+      const deque = new BoundedDeque<number>({ maxLength: 2, overflow: 'reject', onEvict: (items) => evicted.push(items) }, 1, 2);
+      expect(deque.push(3)).toBeUndefined();
+      expect(deque.unshift(0)).toBeUndefined();
+      expect(deque.insertAfterNode(deque.getHead()!, 0)).toBeUndefined();
+
+      const removed = deque.splice(0, 1, 8, 9);
+      expect(removed.isEmpty()).toBe(true);
+      expect([...deque]).toEqual([1, 2]);
+      expect(evicted).toEqual([]);
+
+      deque.shift();
+      expect(getNodeValue(deque.push(3))).toBe(3);
+      expect([...deque]).toEqual([2, 3]);
+    });
+  });
+
+  it('should ignore nodes from other lists', () => {
+    const deque = new BoundedDeque<number>({ maxLength: 2, overflow: 'throw' }, 1, 2);
+    const other = new BoundedDeque<number>({ maxLength: 2 }, 3);
+    const node = other.getHead()!;
+
+    expect(deque.insertAfterNode(node, 4)).toBeUndefined();
+    expect(deque.insertBeforeNode(node, 4)).toBeUndefined();
+    expect(deque.splice(node, 1, 4).isEmpty()).toBe(true);
+    expect(deque.remove(node)).toBe(false);
+    expect([...deque]).toEqual([1, 2]);
+    expect([...other]).toEqual([3]);
+  });
+});
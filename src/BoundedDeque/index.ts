@@ -0,0 +1,465 @@
+import {
+  DoubleLinkedList,
+  type DoubleLinkedListNode,
+  getNextNode,
+  getNodeList,
+  type ReadonlyDoubleLinkedListNode
+} from '../DoubleLinkedList/index.js';
+
+/**
+ * What a {@link BoundedDeque} does when an insertion would take it past its `maxLength`.
+ *
+ * - `'drop-oldest'`: Make room by evicting items from the opposite end: from the head when appending, inserting in the middle
+ *   or splicing, and from the tail when prepending
+ * - `'drop-newest'`: Keep the current items and discard the incoming items that don't fit
+ * - `'throw'`: Throw a `RangeError` without changing anything
+ * - `'reject'`: Ignore the whole insertion without changing anything
+ */
+export type BoundedDequeOverflow = 'drop-oldest' | 'drop-newest' | 'throw' | 'reject';
+
+/**
+ * Options for creating a {@link BoundedDeque}.
+ *
+ * @typeParam ItemT - The type of items stored in the deque
+ */
+export interface BoundedDequeOptions<ItemT> {
+  /** The maximum number of items kept in the deque.  Must be a positive integer. */
+  maxLength: number;
+  /** What to do when an insertion would exceed `maxLength`.  Defaults to `'drop-oldest'`. */
+  overflow?: BoundedDequeOverflow;
+  /**
+   * Called with the items dropped by the `'drop-oldest'` or `'drop-newest'` policies, once per operation that dropped any.
+   * Not called for explicit removals or `clear`.
+   */
+  onEvict?: (items: ItemT[]) => void;
+}
+
+/**
+ * A double-ended queue with a maximum length, backed by a `DoubleLinkedList`.
+ *
+ * Every insertion (`append`, `prepend`, `push`, `unshift`, `insertAfterNode`, `insertBeforeNode` and `splice`) applies the
+ * deque's overflow policy, so a "last N items" buffer never needs to check its length by hand.  The default policy,
+ * `'drop-oldest'`, evicts items from the opposite end to where new items are added.  The deque stores its items in the
+ * same node tuples as `DoubleLinkedList`, so `getNodeValue`, `getNextNode` and `getPreviousNode` work on the nodes it
+ * returns.  The nodes are handed out as `ReadonlyDoubleLinkedListNode`s, so they can't be used to reach the underlying
+ * list and add items past `maxLength`.
+ *
+ * @typeParam ItemT - The type of items stored in the deque
+ *
+ * @example Keeping the last N events
+ * ```typescript
+ * const recent = new BoundedDeque<string>({ maxLength: 3 });
+ * for (const event of ['a', 'b', 'c', 'd']) {
+ *   recent.push(event);
+ * }
+ * console.log([...recent]); // ['b', 'c', 'd']
+ * ```
+ *
+ * @example Refusing work when full
+ * ```typescript
+ * const queue = new BoundedDeque<Job>({ maxLength: 100, overflow: 'reject' });
+ * if (queue.push(job) === undefined) {
+ *   respondWithBackpressure();
+ * }
+ * ```
+ */
+export class BoundedDeque<ItemT> {
+  private readonly maxLength: number;
+  private readonly overflow: BoundedDequeOverflow;
+  private readonly onEvict: ((items: ItemT[]) => void) | undefined;
+  private readonly list = new DoubleLinkedList<ItemT>();
+
+  /**
+   * Creates a new BoundedDeque with optional initial items.
+   *
+   * @param options - The deque options
+   * @param items - Initial items, appended in order under the overflow policy
+   * @throws `RangeError` if `maxLength` isn't a positive integer, or there are too many items for the `'throw'` policy
+   *
+   * @example
+   * ```typescript
+   * const deque = new BoundedDeque({ maxLength: 2 }, 1, 2, 3);
+   * console.log([...deque]); // [2, 3]
+   * ```
+   */
+  public constructor({ maxLength, overflow = 'drop-oldest', onEvict }: BoundedDequeOptions<ItemT>, ...items: ItemT[]) {
+    if (!Number.isInteger(maxLength) || maxLength < 1) {
+      throw new RangeError(`maxLength must be a positive integer, got ${maxLength}`);
+    }
+
+    this.maxLength = maxLength;
+    this.overflow = overflow;
+    this.onEvict = onEvict;
+
+    if (items.length > 0) {
+      this.splice(undefined, 0, ...items);
+    }
+  }
+
+  /**
+   * Gets the maximum number of items kept in the deque.
+   *
+   * @returns The maximum length
+   * @remarks Time complexity: O(1)
+   */
+  public getMaxLength(): number {
+    return this.maxLength;
+  }
+
+  /**
+   * Gets the number of items in the deque.
+   *
+   * @returns The number of items in the deque
+   * @remarks Time complexity: O(1)
+   */
+  public getLength(): number {
+    return this.list.getLength();
+  }
+
+  /**
+   * Checks if the deque is empty.
+   *
+   * @returns `true` if the deque has no items, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isEmpty(): boolean {
+    return this.list.isEmpty();
+  }
+
+  /**
+   * Checks if the deque has reached its maximum length, so the next insertion will overflow.
+   *
+   * @returns `true` if the deque is full, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isFull(): boolean {
+    return this.list.getLength() >= this.maxLength;
+  }
+
+  /**
+   * Gets the first node in the deque.
+   *
+   * @returns The first node, or `undefined` if the deque is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getHead(): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getHead();
+  }
+
+  /**
+   * Gets the last node in the deque.
+   *
+   * @returns The last node, or `undefined` if the deque is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getTail(): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getTail();
+  }
+
+  /**
+   * Gets the item at the specified index.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the item to retrieve (supports negative indices)
+   * @returns The item at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index
+   */
+  public get(index: number): ItemT | undefined {
+    return this.list.get(index);
+  }
+
+  /**
+   * Gets the node at the specified index.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the node to retrieve (supports negative indices)
+   * @returns The node at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index
+   */
+  public getNodeAt(index: number): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getNodeAt(index);
+  }
+
+  /**
+   * Adds an item to the end of the deque.  If the deque is full, the overflow policy decides whether the head is evicted or
+   * the item is dropped.
+   *
+   * @param item - The item to add
+   * @returns The newly created node, or `undefined` if the item wasn't added
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public append(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    if (!this.admitItem(item)) {
+      return undefined;
+    }
+
+    const node = this.list.append(item);
+    this.evictOverflow(false);
+    return node;
+  }
+
+  /**
+   * Adds an item to the beginning of the deque.  If the deque is full, the overflow policy decides whether the tail is
+   * evicted or the item is dropped.
+   *
+   * @param item - The item to add
+   * @returns The newly created node, or `undefined` if the item wasn't added
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public prepend(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    if (!this.admitItem(item)) {
+      return undefined;
+    }
+
+    const node = this.list.prepend(item);
+    this.evictOverflow(true);
+    return node;
+  }
+
+  /**
+   * Adds an item to the end of the deque (alias for append).
+   *
+   * @param item - The item to add
+   * @returns The newly created node, or `undefined` if the item wasn't added
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public push(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.append(item);
+  }
+
+  /**
+   * Adds an item to the beginning of the deque (alias for prepend).
+   *
+   * @param item - The item to add
+   * @returns The newly created node, or `undefined` if the item wasn't added
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public unshift(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.prepend(item);
+  }
+
+  /**
+   * Inserts an item after the specified node.  If the deque is full, the overflow policy decides whether the head is evicted
+   * or the item is dropped.
+   *
+   * @param node - The node after which to insert
+   * @param item - The item to insert
+   * @returns The newly created node, or `undefined` if the node doesn't belong to this deque or the item wasn't added
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public insertAfterNode(node: ReadonlyDoubleLinkedListNode<ItemT>, item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    const ownNode = this.toOwnNode(node);
+    if (ownNode === undefined) {
+      return undefined; // Nothing to do -- wrong list
+    }
+    if (!this.admitItem(item)) {
+      return undefined;
+    }
+
+    const newNode = this.list.insertAfterNode(ownNode, item)!;
+    this.evictOverflow(false);
+    return newNode;
+  }
+
+  /**
+   * Inserts an item before the specified node.  If the deque is full, the overflow policy decides whether the head is
+   * evicted or the item is dropped.  When inserting before the head with `'drop-oldest'`, the new item is itself the one
+   * evicted.
+   *
+   * @param node - The node before which to insert
+   * @param item - The item to insert
+   * @returns The newly created node, or `undefined` if the node doesn't belong to this deque or the item wasn't kept
+   * @throws `RangeError` if the deque is full and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(1)
+   */
+  public insertBeforeNode(node: ReadonlyDoubleLinkedListNode<ItemT>, item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    const ownNode = this.toOwnNode(node);
+    if (ownNode === undefined) {
+      return undefined; // Nothing to do -- wrong list
+    }
+    if (!this.admitItem(item)) {
+      return undefined;
+    }
+
+    const newNode = this.list.insertBeforeNode(ownNode, item)!;
+    this.evictOverflow(false);
+    return getNodeList(newNode) === this.list ? newNode : undefined;
+  }
+
+  /**
+   * Changes the contents of the deque by removing existing items and/or adding new items, like `DoubleLinkedList.splice`.
+   * Removed items make room before the overflow policy is applied.  With `'drop-oldest'`, items are then evicted from the
+   * head; with `'drop-newest'`, only as many of `items` as fit are inserted; and with `'reject'` or `'throw'`, nothing is
+   * changed at all if the result wouldn't fit.
+   *
+   * @param start - Zero-based index (supports negative indices), a node of this deque, or `undefined` for the end
+   * @param deleteCount - Number of items to remove (default: 0)
+   * @param items - Items to add, beginning from the start position
+   * @returns A new DoubleLinkedList containing the deleted items, which is empty if the splice was rejected
+   * @throws `RangeError` if the result wouldn't fit and the overflow policy is `'throw'`
+   * @remarks Time complexity: O(n) for index-based, O(k) for node-based start positions where k is the number of items
+   * removed, inserted or evicted
+   *
+   * @example
+   * ```typescript
+   * const deque = new BoundedDeque({ maxLength: 4 }, 1, 2, 3, 4);
+   * deque.splice(2, 1, 'a', 'b'); // Replaces 3, then evicts 1 to make room
+   * console.log([...deque]);      // [2, 'a', 'b', 4]
+   * ```
+   */
+  public splice(
+    start: number | ReadonlyDoubleLinkedListNode<ItemT> | undefined,
+    deleteCount: number = 0,
+    ...items: ItemT[]
+  ): DoubleLinkedList<ItemT> {
+    const ownStart = start === undefined || typeof start === 'number' ? start : this.toOwnNode(start);
+    if (start !== undefined && ownStart === undefined) {
+      return new DoubleLinkedList<ItemT>(); // Nothing to do -- wrong list
+    }
+
+    const numRemoved = this.countRemovable(ownStart, deleteCount);
+    const accepted = this.admit(items, numRemoved);
+    if (accepted === undefined) {
+      return new DoubleLinkedList<ItemT>();
+    }
+
+    const removed = this.list.splice(ownStart, deleteCount, ...accepted);
+    this.evictOverflow(false);
+    return removed;
+  }
+
+  /**
+   * Removes a node from the deque.
+   *
+   * @param node - The node to remove
+   * @returns `true` if the node was removed, `false` if it doesn't belong to this deque
+   * @remarks Time complexity: O(1)
+   */
+  public remove(node: ReadonlyDoubleLinkedListNode<ItemT>): boolean {
+    const ownNode = this.toOwnNode(node);
+    return ownNode !== undefined && this.list.remove(ownNode);
+  }
+
+  /**
+   * Removes and returns the last item.
+   *
+   * @returns The removed item, or `undefined` if the deque is empty
+   * @remarks Time complexity: O(1)
+   */
+  public pop(): ItemT | undefined {
+    return this.list.pop();
+  }
+
+  /**
+   * Removes and returns the first item.
+   *
+   * @returns The removed item, or `undefined` if the deque is empty
+   * @remarks Time complexity: O(1)
+   */
+  public shift(): ItemT | undefined {
+    return this.list.shift();
+  }
+
+  /**
+   * Removes all items from the deque, without calling `onEvict`.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public clear(): void {
+    this.list.clear();
+  }
+
+  /**
+   * Copies the items of the deque into a new array.
+   *
+   * @returns An array containing the items from head to tail
+   * @remarks Time complexity: O(n)
+   */
+  public toArray(): Readonly<ItemT[]> {
+    return this.list.toArray();
+  }
+
+  /**
+   * Makes the deque iterable, yielding each item from head to tail.
+   *
+   * @returns An iterator that yields each item
+   */
+  public [Symbol.iterator](): Iterator<ItemT> {
+    return this.list.values();
+  }
+
+  // Private Methods
+
+  /** Recovers the writable node behind a handle given out by this deque, or `undefined` if it belongs to another list */
+  private toOwnNode(node: ReadonlyDoubleLinkedListNode<ItemT>): DoubleLinkedListNode<ItemT> | undefined {
+    const ownNode = node as DoubleLinkedListNode<ItemT>;
+    return getNodeList(ownNode) === this.list ? ownNode : undefined;
+  }
+
+  /**
+   * Applies the overflow policy to an insertion of `items` that also removes `numRemoved` items.  Returns the items that may
+   * be inserted, or `undefined` if the insertion is refused altogether.  With `'drop-oldest'`, every item is accepted and
+   * `evictOverflow` makes room afterwards.
+   */
+  private admit(items: ItemT[], numRemoved: number): ItemT[] | undefined {
+    const excess = this.list.getLength() - numRemoved + items.length - this.maxLength;
+    if (excess <= 0 || this.overflow === 'drop-oldest') {
+      return items;
+    }
+
+    switch (this.overflow) {
+      case 'throw':
+        throw new RangeError(`Adding ${items.length} item(s) would exceed the maxLength of ${this.maxLength}`);
+      case 'reject':
+        return undefined;
+      case 'drop-newest': {
+        const accepted = items.slice(0, Math.max(0, items.length - excess));
+        this.onEvict?.(items.slice(accepted.length));
+        return accepted;
+      }
+    }
+  }
+
+  /** Applies the overflow policy to the insertion of a single item, returning `true` if the item may be inserted */
+  private admitItem(item: ItemT): boolean {
+    return this.admit([item], 0)?.length === 1;
+  }
+
+  /** Evicts items from the head, or from the tail if `fromTail` is set, until the deque is back within its maximum length */
+  private evictOverflow(fromTail: boolean): void {
+    const excess = this.list.getLength() - this.maxLength;
+    if (excess <= 0) {
+      return;
+    }
+
+    const evicted: ItemT[] = [];
+    for (let i = 0; i < excess; i += 1) {
+      evicted.push((fromTail ? this.list.pop() : this.list.shift())!);
+    }
+    this.onEvict?.(evicted);
+  }
+
+  /** Counts the items `splice(start, deleteCount)` would remove */
+  private countRemovable(start: number | DoubleLinkedListNode<ItemT> | undefined, deleteCount: number): number {
+    if (start === undefined || !(deleteCount > 0)) {
+      return 0;
+    }
+
+    if (typeof start === 'number') {
+      const length = this.list.getLength();
+      const actualStart = start < 0 ? Math.max(0, length + start) : Math.min(start, length);
+      return Math.min(deleteCount, length - actualStart);
+    }
+
+    let count = 0;
+    for (let node: DoubleLinkedListNode<ItemT> | undefined = start; node !== undefined && count < deleteCount; node = getNextNode(node)) {
+      count += 1;
+    }
+    return count;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Thrown by a traversal of a `DoubleLinkedList` with strict iteration enabled when items are inserted, removed or moved
+ * while the traversal is in progress.
+ *
+ * @example
+ * ```typescript
+ * const list = new DoubleLinkedList(1, 2, 3);
+ * list.enableStrictIteration();
+ * try {
+ *   list.forEach((value) => list.append(value));
+ * } catch (error) {
+ *   console.log(error instanceof ConcurrentModificationError); // true
+ * }
+ * ```
+ */
+export class ConcurrentModificationError extends Error {
+  public constructor(message = 'The list was modified during iteration') {
+    super(message);
+    this.name = 'ConcurrentModificationError';
+  }
+}
@@ -0,0 +1,231 @@
+import type { DoubleLinkedList, DoubleLinkedListNode } from './index.js';
+import { NEXT, PREV, VALUE } from './node-fields.js';
+
+/**
+ * A lightweight, live view over a contiguous run of nodes in a `DoubleLinkedList`, obtained from `list.range()` or
+ * `list.slice()`.
+ *
+ * The view doesn't copy anything: it remembers its start and end nodes and walks the list between them whenever it's used.
+ * Ranges created with `range()` may run in either direction, so iteration order follows the direction from the start node to
+ * the end node.  If nodes inside the range are removed through the list, the view should be considered stale.
+ *
+ * @typeParam ItemT - The type of items stored in the list
+ *
+ * @example
+ * ```typescript
+ * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+ * const view = list.slice(1, 4);
+ * console.log(view.toArray()); // [2, 3, 4]
+ * view.removeAll();
+ * console.log([...list]);      // [1, 5]
+ * ```
+ */
+export class DoubleLinkedListRange<ItemT> {
+  private readonly startNode: DoubleLinkedListNode<ItemT> | undefined;
+  private readonly endNode: DoubleLinkedListNode<ItemT> | undefined;
+  private readonly step: typeof NEXT | typeof PREV;
+  private readonly createList: <U>() => DoubleLinkedList<U>;
+  /** Typed with `unknown` parameters so that ranges, and the lists that create them, stay covariant in ItemT */
+  private readonly removeRun: (first: unknown, last: unknown) => number;
+
+  /**
+   * Use `list.range()` or `list.slice()` rather than constructing ranges directly.
+   *
+   * @param startNode - The first node visited, or `undefined` for an empty range
+   * @param endNode - The last node visited, or `undefined` for an empty range
+   * @param isReversed - If `true`, the range is walked from `startNode` toward the head of the list
+   * @param createList - Creates the empty list that `map()` fills
+   * @param removeRun - Removes the nodes from `first` through `last`, in list order, from the list, returning how many were
+   * removed
+   */
+  public constructor(
+    startNode: DoubleLinkedListNode<ItemT> | undefined,
+    endNode: DoubleLinkedListNode<ItemT> | undefined,
+    isReversed: boolean,
+    createList: <U>() => DoubleLinkedList<U>,
+    removeRun: (first: DoubleLinkedListNode<ItemT>, last: DoubleLinkedListNode<ItemT>) => number
+  ) {
+    this.startNode = startNode;
+    this.endNode = endNode;
+    this.step = isReversed ? PREV : NEXT;
+    this.createList = createList;
+    this.removeRun = removeRun as (first: unknown, last: unknown) => number;
+  }
+
+  /**
+   * Gets the first node visited by the range.
+   *
+   * @returns The start node, or `undefined` if the range is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getStartNode(): DoubleLinkedListNode<ItemT> | undefined {
+    return this.startNode;
+  }
+
+  /**
+   * Gets the last node visited by the range.
+   *
+   * @returns The end node, or `undefined` if the range is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getEndNode(): DoubleLinkedListNode<ItemT> | undefined {
+    return this.endNode;
+  }
+
+  /**
+   * Checks if the range is empty.
+   *
+   * @returns `true` if the range has no nodes, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isEmpty(): boolean {
+    return this.startNode === undefined;
+  }
+
+  /**
+   * Gets the number of items in the range.
+   *
+   * @returns The number of items in the range
+   * @remarks Time complexity: O(k) where k is the number of items in the range
+   */
+  public getLength(): number {
+    let length = 0;
+    this.forEachNode(() => {
+      length += 1;
+    });
+    return length;
+  }
+
+  /**
+   * Makes the range iterable, yielding each item in range order.
+   *
+   * @returns An iterator that yields each item from the start node to the end node
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * for (const item of list.range(list.getTail()!, list.getHead()!)) {
+   *   console.log(item); // 'c', 'b', 'a'
+   * }
+   * ```
+   */
+  public [Symbol.iterator](): Iterator<ItemT> {
+    let current = this.startNode;
+    const endNode = this.endNode;
+    const step = this.step;
+
+    return {
+      next(): IteratorResult<ItemT> {
+        if (current === undefined) {
+          return { done: true, value: undefined };
+        }
+
+        const value = current[VALUE];
+        current = current === endNode ? undefined : current[step];
+        return { done: false, value };
+      }
+    };
+  }
+
+  /**
+   * Executes a provided function once for each item in the range.
+   * The current node may safely be removed from the list by the callback.
+   *
+   * @param callback - Function to execute for each item. Receives (value, index, range) as parameters, where index is
+   * relative to the start of the range.
+   * @remarks Time complexity: O(k) where k is the number of items in the range
+   */
+  public forEach(callback: (value: ItemT, index: number, range: DoubleLinkedListRange<ItemT>) => void): void {
+    let index = 0;
+    this.forEachNode((node) => {
+      callback(node[VALUE], index, this);
+      index += 1;
+    });
+  }
+
+  /**
+   * Creates a new DoubleLinkedList with the results of calling a provided function on every item in the range.
+   *
+   * @typeParam U - The type of items in the returned list
+   * @param callback - Function that produces an item of the new list. Receives (value, index, range) as parameters.
+   * @returns A new DoubleLinkedList with the transformed items, in range order
+   * @remarks Time complexity: O(k) where k is the number of items in the range
+   */
+  public map<U>(callback: (value: ItemT, index: number, range: DoubleLinkedListRange<ItemT>) => U): DoubleLinkedList<U> {
+    const result = this.createList<U>();
+    this.forEach((value, index) => {
+      result.append(callback(value, index, this));
+    });
+    return result;
+  }
+
+  /**
+   * Returns the first item in the range that satisfies the provided testing function.
+   *
+   * @param predicate - Function to test each item. Receives (value, index, range) as parameters.
+   * @returns The first item that matches the predicate, or `undefined` if no match is found
+   * @remarks Time complexity: O(k) in worst case where k is the number of items in the range
+   */
+  public find(predicate: (value: ItemT, index: number, range: DoubleLinkedListRange<ItemT>) => boolean): ItemT | undefined {
+    let index = 0;
+    let cursor = this.startNode;
+    while (cursor !== undefined) {
+      const next = cursor === this.endNode ? undefined : cursor[this.step];
+      if (predicate(cursor[VALUE], index, this)) {
+        return cursor[VALUE];
+      }
+      cursor = next;
+      index += 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Copies the items of the range into a new array, in range order.
+   *
+   * @returns An array containing the items of the range
+   * @remarks Time complexity: O(k) where k is the number of items in the range
+   */
+  public toArray(): ItemT[] {
+    const output: ItemT[] = [];
+    this.forEachNode((node) => {
+      output.push(node[VALUE]);
+    });
+    return output;
+  }
+
+  /**
+   * Removes every node of the range from the list in one step.  Observers of the list are notified with a single batch.
+   *
+   * @returns The number of removed items, which is 0 if the range is stale because its start or end node was removed or
+   * moved
+   * @remarks Time complexity: O(k) where k is the number of items in the range
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c', 'd');
+   * const removed = list.range(list.getNodeAt(1)!, list.getNodeAt(2)!).removeAll();
+   * console.log(removed);   // 2
+   * console.log([...list]); // ['a', 'd']
+   * ```
+   */
+  public removeAll(): number {
+    if (this.startNode === undefined || this.endNode === undefined) {
+      return 0; // Nothing to do -- empty range
+    }
+
+    return this.step === NEXT ? this.removeRun(this.startNode, this.endNode) : this.removeRun(this.endNode, this.startNode);
+  }
+
+  // Private Methods
+
+  /** Visits each node of the range, reading the following node before each visit so the visited node may be removed */
+  private forEachNode(visit: (node: DoubleLinkedListNode<ItemT>) => void): void {
+    let cursor = this.startNode;
+    while (cursor !== undefined) {
+      const next = cursor === this.endNode ? undefined : cursor[this.step];
+      visit(cursor);
+      cursor = next;
+    }
+  }
+}
@@ -0,0 +1,323 @@
+import type { DoubleLinkedList } from './index.js';
+
+/**
+ * A lazy, chainable sequence of items, obtained from `list.lazy()`.
+ *
+ * Intermediate operations such as `map`, `filter` and `take` don't do any work when they're called: they describe a new
+ * sequence, and items are pulled through the whole chain one at a time only when the sequence is iterated or collected
+ * with a terminal operation such as `toList`, `toArray` or `reduce`.  Nothing is copied along the way, and a chain that
+ * ends with `take` stops reading the source as soon as it has enough items.
+ *
+ * A sequence can be iterated more than once; each iteration starts again from the source.  Iterating a sequence over a list
+ * follows the same modification rules as iterating the list itself.
+ *
+ * @typeParam ItemT - The type of items in the sequence
+ *
+ * @example Finding the first few matches in a large list
+ * ```typescript
+ * const firstTen = orders
+ *   .lazy()
+ *   .filter((order) => order.total > 100)
+ *   .map((order) => order.id)
+ *   .take(10)
+ *   .toArray(); // Stops after the tenth match
+ * ```
+ */
+export class LazySequence<ItemT> implements Iterable<ItemT> {
+  private readonly source: Iterable<ItemT>;
+  private readonly createList: <U>() => DoubleLinkedList<U>;
+
+  /**
+   * Use `list.lazy()` rather than constructing sequences directly.
+   *
+   * @param source - The items of the sequence, which are read again each time the sequence is iterated
+   * @param createList - Creates the empty list that `toList()` fills
+   */
+  public constructor(source: Iterable<ItemT>, createList: <U>() => DoubleLinkedList<U>) {
+    this.source = source;
+    this.createList = createList;
+  }
+
+  /**
+   * Makes the sequence iterable, running the chain of operations as items are requested.
+   *
+   * @returns An iterator that yields each item of the sequence
+   */
+  public [Symbol.iterator](): Iterator<ItemT> {
+    return this.source[Symbol.iterator]();
+  }
+
+  /**
+   * Lazily transforms each item of the sequence.
+   *
+   * @typeParam U - The type of items in the returned sequence
+   * @param callback - Function that produces an item of the new sequence. Receives (value, index) as parameters.
+   * @returns A new sequence of the transformed items
+   * @remarks Time complexity: O(1) per item pulled through the chain
+   */
+  public map<U>(callback: (value: ItemT, index: number) => U): LazySequence<U> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const value of source) {
+        yield callback(value, index);
+        index += 1;
+      }
+    });
+  }
+
+  /**
+   * Lazily skips the items that don't pass the provided testing function.
+   *
+   * @param predicate - Function to test each item. Receives (value, index) as parameters.
+   * @returns A new sequence of the items that pass the test
+   * @remarks Time complexity: O(1) per item read from the source
+   */
+  public filter<S extends ItemT>(predicate: (value: ItemT, index: number) => value is S): LazySequence<S>;
+  public filter(predicate: (value: ItemT, index: number) => boolean): LazySequence<ItemT>;
+  public filter(predicate: (value: ItemT, index: number) => boolean): LazySequence<ItemT> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const value of source) {
+        if (predicate(value, index)) {
+          yield value;
+        }
+        index += 1;
+      }
+    });
+  }
+
+  /**
+   * Lazily limits the sequence to its first `count` items.  The source isn't read any further once they've been yielded.
+   *
+   * @param count - The maximum number of items, a non-negative integer or `Infinity`
+   * @returns A new sequence of at most `count` items
+   * @throws `RangeError` if `count` isn't a non-negative integer or `Infinity`
+   * @remarks Time complexity: O(1) per item pulled through the chain
+   */
+  public take(count: number): LazySequence<ItemT> {
+    assertCount(count);
+    return this.derive(function* (source) {
+      if (count === 0) {
+        return; // Nothing to do -- the source isn't even started
+      }
+
+      let remaining = count;
+      for (const value of source) {
+        yield value;
+        remaining -= 1;
+        if (remaining === 0) {
+          return;
+        }
+      }
+    });
+  }
+
+  /**
+   * Lazily skips the first `count` items of the sequence.
+   *
+   * @param count - The number of items to skip, a non-negative integer or `Infinity`
+   * @returns A new sequence without the first `count` items
+   * @throws `RangeError` if `count` isn't a non-negative integer or `Infinity`
+   * @remarks Time complexity: O(1) per item read from the source
+   */
+  public drop(count: number): LazySequence<ItemT> {
+    assertCount(count);
+    return this.derive(function* (source) {
+      let remaining = count;
+      for (const value of source) {
+        if (remaining > 0) {
+          remaining -= 1;
+        } else {
+          yield value;
+        }
+      }
+    });
+  }
+
+  /**
+   * Lazily yields items while they pass the provided testing function, ending the sequence at the first item that doesn't.
+   *
+   * @param predicate - Function to test each item. Receives (value, index) as parameters.
+   * @returns A new sequence of the leading items that pass the test
+   * @remarks Time complexity: O(1) per item read from the source
+   */
+  public takeWhile<S extends ItemT>(predicate: (value: ItemT, index: number) => value is S): LazySequence<S>;
+  public takeWhile(predicate: (value: ItemT, index: number) => boolean): LazySequence<ItemT>;
+  public takeWhile(predicate: (value: ItemT, index: number) => boolean): LazySequence<ItemT> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const value of source) {
+        if (!predicate(value, index)) {
+          return;
+        }
+        yield value;
+        index += 1;
+      }
+    });
+  }
+
+  /**
+   * Lazily transforms each item and flattens the results by one level, like `list.flatMap()`.
+   *
+   * @typeParam U - The type of items in the returned sequence
+   * @param callback - Function that produces an item, or an array of items, of the new sequence. Receives (value, index) as
+   * parameters.
+   * @returns A new sequence of the flattened results
+   * @remarks Time complexity: O(1) per item pulled through the chain
+   */
+  public flatMap<U>(callback: (value: ItemT, index: number) => U | readonly U[]): LazySequence<U> {
+    return this.derive(function* (source) {
+      let index = 0;
+      for (const value of source) {
+        const mapped = callback(value, index);
+        if (Array.isArray(mapped)) {
+          yield* mapped as readonly U[];
+        } else {
+          yield mapped as U;
+        }
+        index += 1;
+      }
+    });
+  }
+
+  /**
+   * Lazily pairs each item with the item at the same position of another iterable.  The sequence ends as soon as either
+   * side runs out.
+   *
+   * @typeParam U - The type of items in `other`
+   * @param other - The iterable to pair items with, such as another list or sequence
+   * @returns A new sequence of `[item, otherItem]` pairs
+   * @remarks Time complexity: O(1) per item pulled through the chain
+   *
+   * @example
+   * ```typescript
+   * const names = new DoubleLinkedList('a', 'b', 'c');
+   * console.log(names.lazy().zip([1, 2]).toArray()); // [['a', 1], ['b', 2]]
+   * ```
+   */
+  public zip<U>(other: Iterable<U>): LazySequence<[ItemT, U]> {
+    return this.derive(function* (source) {
+      const others = other[Symbol.iterator]();
+      try {
+        for (const value of source) {
+          const result = others.next();
+          if (result.done === true) {
+            return;
+          }
+          yield [value, result.value] as [ItemT, U];
+        }
+      } finally {
+        // Let the other iterable clean up if this side ran out (or the consumer stopped) first
+        others.return?.();
+      }
+    });
+  }
+
+  /**
+   * Lazily groups consecutive items into arrays of `size` items.  The last chunk holds the remaining items and may be
+   * shorter.
+   *
+   * @param size - The number of items per chunk, a positive integer
+   * @returns A new sequence of chunks
+   * @throws `RangeError` if `size` isn't a positive integer
+   * @remarks Time complexity: O(1) per item read from the source
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+   * console.log(list.lazy().chunk(2).toArray()); // [[1, 2], [3, 4], [5]]
+   * ```
+   */
+  public chunk(size: number): LazySequence<ItemT[]> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`size must be a positive integer, got ${size}`);
+    }
+
+    return this.derive(function* (source) {
+      let chunk: ItemT[] = [];
+      for (const value of source) {
+        chunk.push(value);
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    });
+  }
+
+  /**
+   * Runs the chain and collects the items into a new DoubleLinkedList.
+   *
+   * @returns A new DoubleLinkedList containing the items of the sequence
+   * @remarks Time complexity: O(n) where n is the number of items read from the source
+   */
+  public toList(): DoubleLinkedList<ItemT> {
+    const result = this.createList<ItemT>();
+    for (const value of this) {
+      result.append(value);
+    }
+    return result;
+  }
+
+  /**
+   * Runs the chain and collects the items into a new array.
+   *
+   * @returns An array containing the items of the sequence
+   * @remarks Time complexity: O(n) where n is the number of items read from the source
+   */
+  public toArray(): ItemT[] {
+    return Array.from(this);
+  }
+
+  /**
+   * Runs the chain, combining the items into a single value.
+   * Similar to Array.prototype.reduce().
+   *
+   * @typeParam U - The type of the accumulated value
+   * @param callback - Reducer function. Receives (accumulator, value, index) as parameters.
+   * @param initialValue - The initial accumulator.  If omitted, the first item is used and the reduction starts at the second.
+   * @returns The final accumulator
+   * @throws `TypeError` if the sequence is empty and no initial value is given
+   * @remarks Time complexity: O(n) where n is the number of items read from the source
+   */
+  public reduce(callback: (accumulator: ItemT, value: ItemT, index: number) => ItemT): ItemT;
+  public reduce<U>(callback: (accumulator: U, value: ItemT, index: number) => U, initialValue: U): U;
+  public reduce<U>(callback: (accumulator: U, value: ItemT, index: number) => U, ...initialValue: [] | [U]): U {
+    let hasAccumulator = initialValue.length > 0;
+    let accumulator = initialValue[0] as U;
+    let index = 0;
+    for (const value of this) {
+      if (hasAccumulator) {
+        accumulator = callback(accumulator, value, index);
+      } else {
+        // Without an initial value, the first item is the initial accumulator
+        accumulator = value as unknown as U;
+        hasAccumulator = true;
+      }
+      index += 1;
+    }
+
+    if (!hasAccumulator) {
+      throw new TypeError('Reduce of empty sequence with no initial value');
+    }
+    return accumulator;
+  }
+
+  // Private Methods
+
+  /** Creates a sequence whose items are produced from this sequence's items by `transform` on each iteration */
+  private derive<U>(transform: (source: Iterable<ItemT>) => Iterator<U>): LazySequence<U> {
+    const source = this.source;
+    return new LazySequence({ [Symbol.iterator]: () => transform(source) }, this.createList);
+  }
+}
+
+/** Throws a `RangeError` unless `count` is a valid number of items to take or drop */
+function assertCount(count: number): void {
+  if (count !== Infinity && (!Number.isInteger(count) || count < 0)) {
+    throw new RangeError(`count must be a non-negative integer or Infinity, got ${count}`);
+  }
+}
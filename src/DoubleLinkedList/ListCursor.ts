@@ -0,0 +1,190 @@
+import type { DoubleLinkedList, DoubleLinkedListNode } from './index.js';
+import { LIST, NEXT, PREV, VALUE } from './node-fields.js';
+
+/**
+ * A bidirectional cursor over a `DoubleLinkedList`, obtained from `list.cursorAt()`, for stateful traversal and editing.
+ *
+ * A cursor is either positioned on a node of the list or at the end, just past the last node.  Edits made through the cursor
+ * keep it positioned sensibly: inserting leaves it where it is, and removing moves it to the following node.  If its node is
+ * removed by other code, the cursor moves to the end.
+ *
+ * @typeParam ItemT - The type of items stored in the list
+ *
+ * @example Tokenizing a character buffer
+ * ```typescript
+ * const chars = new DoubleLinkedList(...'a  b');
+ * const cursor = chars.cursorAt(0)!;
+ * while (!cursor.isAtEnd()) {
+ *   if (cursor.value === ' ' && getNodeValue(getPreviousNode(cursor.getNode()!)) === ' ') {
+ *     cursor.remove(); // Collapse repeated spaces -- the cursor moves on to the next character
+ *   } else {
+ *     cursor.next();
+ *   }
+ * }
+ * console.log(chars.toArray().join('')); // 'a b'
+ * ```
+ */
+export class ListCursor<ItemT> {
+  private readonly list: DoubleLinkedList<ItemT>;
+  private node: DoubleLinkedListNode<ItemT> | undefined;
+
+  /**
+   * Use `list.cursorAt()` rather than constructing cursors directly.
+   *
+   * @param list - The list to traverse
+   * @param node - The node of `list` to start at, or `undefined` to start at the end
+   */
+  public constructor(list: DoubleLinkedList<ItemT>, node: DoubleLinkedListNode<ItemT> | undefined) {
+    this.list = list;
+    this.node = node;
+  }
+
+  /**
+   * The item at the cursor's position, or `undefined` if the cursor is at the end.
+   *
+   * @remarks Time complexity: O(1)
+   */
+  public get value(): ItemT | undefined {
+    return this.getNode()?.[VALUE];
+  }
+
+  /**
+   * Gets the node at the cursor's position.
+   *
+   * @returns The current node, or `undefined` if the cursor is at the end
+   * @remarks Time complexity: O(1)
+   */
+  public getNode(): DoubleLinkedListNode<ItemT> | undefined {
+    if (this.node !== undefined && this.node[LIST] !== this.list) {
+      this.node = undefined; // Removed by other code
+    }
+
+    return this.node;
+  }
+
+  /**
+   * Checks if the cursor is past the last node of the list.  This is always the case for an empty list.
+   *
+   * @returns `true` if the cursor is at the end, `false` if it's on a node
+   * @remarks Time complexity: O(1)
+   */
+  public isAtEnd(): boolean {
+    return this.getNode() === undefined;
+  }
+
+  /**
+   * Checks if the cursor is at the first position of the list, which is the head, or the end if the list is empty.
+   *
+   * @returns `true` if `prev()` can't move the cursor any further back, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isAtStart(): boolean {
+    return this.getNode() === this.list.getHead();
+  }
+
+  /**
+   * Moves the cursor to the next node, or to the end if it's on the last node.
+   *
+   * @returns `true` if the cursor moved, `false` if it was already at the end
+   * @remarks Time complexity: O(1)
+   */
+  public next(): boolean {
+    const node = this.getNode();
+    if (node === undefined) {
+      return false;
+    }
+
+    this.node = node[NEXT];
+    return true;
+  }
+
+  /**
+   * Moves the cursor to the previous node.  From the end, this moves to the last node.
+   *
+   * @returns `true` if the cursor moved, `false` if it was already at the start
+   * @remarks Time complexity: O(1)
+   */
+  public prev(): boolean {
+    const node = this.getNode();
+    const prev = node !== undefined ? node[PREV] : this.list.getTail();
+    if (prev === undefined) {
+      return false;
+    }
+
+    this.node = prev;
+    return true;
+  }
+
+  /**
+   * Inserts an item before the cursor's position.  At the end, this appends the item to the list.
+   * The cursor stays where it is.
+   *
+   * @param item - The item to insert
+   * @returns The newly created node
+   * @remarks Time complexity: O(1)
+   *
+   * @example Typing at a caret
+   * ```typescript
+   * const text = new DoubleLinkedList(...'ac');
+   * const caret = text.cursorAt(1)!;
+   * caret.insertBefore('b');
+   * console.log(text.toArray().join('')); // 'abc'
+   * console.log(caret.value);             // 'c'
+   * ```
+   */
+  public insertBefore(item: ItemT): DoubleLinkedListNode<ItemT> {
+    const node = this.getNode();
+    return node !== undefined ? this.list.insertBeforeNode(node, item)! : this.list.append(item);
+  }
+
+  /**
+   * Inserts an item after the cursor's node.  The cursor stays where it is.
+   *
+   * @param item - The item to insert
+   * @returns The newly created node, or `undefined` if the cursor is at the end
+   * @remarks Time complexity: O(1)
+   */
+  public insertAfter(item: ItemT): DoubleLinkedListNode<ItemT> | undefined {
+    const node = this.getNode();
+    if (node === undefined) {
+      return undefined; // Nothing to do -- there's no node to insert after
+    }
+
+    return this.list.insertAfterNode(node, item);
+  }
+
+  /**
+   * Removes the cursor's node from the list and moves the cursor to the following node.
+   *
+   * @returns The removed item, or `undefined` if the cursor is at the end
+   * @remarks Time complexity: O(1)
+   */
+  public remove(): ItemT | undefined {
+    const node = this.getNode();
+    if (node === undefined) {
+      return undefined; // Nothing to do -- there's no node to remove
+    }
+
+    this.node = node[NEXT];
+    this.list.remove(node);
+    return node[VALUE];
+  }
+
+  /**
+   * Replaces the item at the cursor's position, keeping the node itself.
+   *
+   * @param item - The new item
+   * @returns The previous item, or `undefined` if the cursor is at the end, in which case nothing is changed
+   * @remarks Time complexity: O(1)
+   */
+  public replace(item: ItemT): ItemT | undefined {
+    const node = this.getNode();
+    if (node === undefined) {
+      return undefined; // Nothing to do -- there's no node to update
+    }
+
+    const previous = node[VALUE];
+    node[VALUE] = item;
+    return previous;
+  }
+}
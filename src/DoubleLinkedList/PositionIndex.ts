@@ -0,0 +1,264 @@
+import type { DoubleLinkedListNode } from './index.js';
+
+interface PositionIndexEntry<ItemT> {
+  node: DoubleLinkedListNode<ItemT>;
+  /** Heap priority -- parents always have lower priorities than their children */
+  priority: number;
+  /** The number of entries in the subtree rooted at this entry, including itself */
+  size: number;
+  parent: PositionIndexEntry<ItemT> | undefined;
+  left: PositionIndexEntry<ItemT> | undefined;
+  right: PositionIndexEntry<ItemT> | undefined;
+}
+
+/**
+ * An order-statistic overlay for a `DoubleLinkedList`, implemented as an implicit treap whose in-order traversal matches the
+ * list order.  Supports O(log n) expected lookups by position and of a node's position.
+ *
+ * The index is rebuilt lazily from the list after being invalidated, which is how bulk relinking operations keep their cost
+ * independent of the index.  While invalid, incremental updates are ignored.
+ */
+export class PositionIndex<ItemT> {
+  private readonly collectNodes: () => Iterable<DoubleLinkedListNode<ItemT>>;
+
+  private root: PositionIndexEntry<ItemT> | undefined;
+  private readonly entriesByNode = new Map<DoubleLinkedListNode<ItemT>, PositionIndexEntry<ItemT>>();
+  private isValid = false;
+
+  /**
+   * @param collectNodes - Returns the list's nodes in order, used whenever the index needs to be rebuilt
+   */
+  public constructor(collectNodes: () => Iterable<DoubleLinkedListNode<ItemT>>) {
+    this.collectNodes = collectNodes;
+  }
+
+  /** Marks the index as out of date, so that it's rebuilt on next use */
+  public invalidate(): void {
+    if (!this.isValid) {
+      return;
+    }
+
+    this.isValid = false;
+    this.root = undefined;
+    this.entriesByNode.clear();
+  }
+
+  /** Records that `node` was linked in immediately after `prev`, or at the head if `prev` is `undefined` */
+  public insertAfter(prev: DoubleLinkedListNode<ItemT> | undefined, node: DoubleLinkedListNode<ItemT>): void {
+    if (!this.isValid) {
+      return;
+    }
+
+    const prevEntry = prev !== undefined ? this.entriesByNode.get(prev) : undefined;
+    if (prev !== undefined && prevEntry === undefined) {
+      this.invalidate(); // Out of sync -- shouldn't happen, but rebuilding is always safe
+      return;
+    }
+
+    const entry: PositionIndexEntry<ItemT> = {
+      node,
+      priority: Math.random(),
+      size: 1,
+      parent: undefined,
+      left: undefined,
+      right: undefined
+    };
+    this.entriesByNode.set(node, entry);
+
+    if (this.root === undefined) {
+      this.root = entry;
+      return;
+    }
+
+    // Attach as the in-order successor of prev, or as the leftmost entry
+    if (prevEntry !== undefined && prevEntry.right === undefined) {
+      prevEntry.right = entry;
+      entry.parent = prevEntry;
+    } else {
+      let cursor = prevEntry !== undefined ? prevEntry.right! : this.root;
+      while (cursor.left !== undefined) {
+        cursor = cursor.left;
+      }
+      cursor.left = entry;
+      entry.parent = cursor;
+    }
+
+    for (let ancestor: PositionIndexEntry<ItemT> | undefined = entry.parent; ancestor !== undefined; ancestor = ancestor.parent) {
+      ancestor.size += 1;
+    }
+
+    while (entry.parent !== undefined && entry.parent.priority > entry.priority) {
+      this.rotateUp(entry);
+    }
+  }
+
+  /** Records that `node` was unlinked from the list */
+  public remove(node: DoubleLinkedListNode<ItemT>): void {
+    if (!this.isValid) {
+      return;
+    }
+
+    const entry = this.entriesByNode.get(node);
+    if (entry === undefined) {
+      return;
+    }
+    this.entriesByNode.delete(node);
+
+    // Rotate the entry down until it has at most one child
+    while (entry.left !== undefined && entry.right !== undefined) {
+      this.rotateUp(entry.left.priority < entry.right.priority ? entry.left : entry.right);
+    }
+
+    const child = entry.left ?? entry.right;
+    const parent = entry.parent;
+    if (child !== undefined) {
+      child.parent = parent;
+    }
+    this.replaceChild(parent, entry, child);
+
+    for (let ancestor = parent; ancestor !== undefined; ancestor = ancestor.parent) {
+      ancestor.size -= 1;
+    }
+  }
+
+  /** Gets the node at the specified zero-based position, which must be in bounds */
+  public select(index: number): DoubleLinkedListNode<ItemT> | undefined {
+    this.ensureValid();
+
+    let remaining = index;
+    let cursor = this.root;
+    while (cursor !== undefined) {
+      const leftSize = getSize(cursor.left);
+      if (remaining < leftSize) {
+        cursor = cursor.left;
+      } else if (remaining === leftSize) {
+        return cursor.node;
+      } else {
+        remaining -= leftSize + 1;
+        cursor = cursor.right;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Gets the zero-based position of a node, which must belong to the indexed list */
+  public rankOf(node: DoubleLinkedListNode<ItemT>): number {
+    this.ensureValid();
+
+    let entry = this.entriesByNode.get(node);
+    if (entry === undefined) {
+      return -1;
+    }
+
+    let rank = getSize(entry.left);
+    while (entry.parent !== undefined) {
+      if (entry.parent.right === entry) {
+        rank += getSize(entry.parent.left) + 1;
+      }
+      entry = entry.parent;
+    }
+
+    return rank;
+  }
+
+  // Private Methods
+
+  /** Rebuilds the treap from the list's nodes in O(n), if it was invalidated */
+  private ensureValid(): void {
+    if (this.isValid) {
+      return;
+    }
+
+    // Builds a Cartesian tree over the in-order sequence of nodes using a stack holding the rightmost path
+    const rightPath: Array<PositionIndexEntry<ItemT>> = [];
+    for (const node of this.collectNodes()) {
+      const entry: PositionIndexEntry<ItemT> = {
+        node,
+        priority: Math.random(),
+        size: 1,
+        parent: undefined,
+        left: undefined,
+        right: undefined
+      };
+      this.entriesByNode.set(node, entry);
+
+      let lastPopped: PositionIndexEntry<ItemT> | undefined;
+      while (rightPath.length > 0 && rightPath[rightPath.length - 1].priority > entry.priority) {
+        lastPopped = rightPath.pop();
+      }
+
+      if (lastPopped !== undefined) {
+        entry.left = lastPopped;
+        lastPopped.parent = entry;
+      }
+
+      if (rightPath.length > 0) {
+        const parent = rightPath[rightPath.length - 1];
+        parent.right = entry;
+        entry.parent = parent;
+      }
+
+      rightPath.push(entry);
+    }
+
+    this.root = rightPath[0];
+    updateSizes(this.root);
+    this.isValid = true;
+  }
+
+  /** Rotates an entry above its parent, preserving the in-order sequence */
+  private rotateUp(entry: PositionIndexEntry<ItemT>): void {
+    const parent = entry.parent!;
+    const grandparent = parent.parent;
+
+    if (parent.left === entry) {
+      parent.left = entry.right;
+      if (entry.right !== undefined) {
+        entry.right.parent = parent;
+      }
+      entry.right = parent;
+    } else {
+      parent.right = entry.left;
+      if (entry.left !== undefined) {
+        entry.left.parent = parent;
+      }
+      entry.left = parent;
+    }
+
+    parent.parent = entry;
+    entry.parent = grandparent;
+    this.replaceChild(grandparent, parent, entry);
+
+    parent.size = 1 + getSize(parent.left) + getSize(parent.right);
+    entry.size = 1 + getSize(entry.left) + getSize(entry.right);
+  }
+
+  private replaceChild(
+    parent: PositionIndexEntry<ItemT> | undefined,
+    oldChild: PositionIndexEntry<ItemT>,
+    newChild: PositionIndexEntry<ItemT> | undefined
+  ): void {
+    if (parent === undefined) {
+      this.root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+  }
+}
+
+function getSize(entry: PositionIndexEntry<unknown> | undefined): number {
+  return entry?.size ?? 0;
+}
+
+/** Recomputes subtree sizes bottom-up.  Recursion depth is the treap height, which is O(log n) expected. */
+function updateSizes(entry: PositionIndexEntry<unknown> | undefined): number {
+  if (entry === undefined) {
+    return 0;
+  }
+
+  entry.size = 1 + updateSizes(entry.left) + updateSizes(entry.right);
+  return entry.size;
+}
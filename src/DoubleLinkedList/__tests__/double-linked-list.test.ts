@@ -1,4 +1,13 @@
-import { DoubleLinkedList, type DoubleLinkedListNode, getNextNode, getNodeList, getNodeValue, getPreviousNode } from '../index.js';
+import {
+  ConcurrentModificationError,
+  DoubleLinkedList,
+  type DoubleLinkedListNode,
+  getNextNode,
+  getNodeList,
+  getNodeValue,
+  getPreviousNode,
+  setNodeValue
+} from '../index.js';
 
 describe('DoubleLinkedList', () => {
   it('initializing with values should work', () => {
@@ -237,6 +246,1078 @@ describe('DoubleLinkedList', () => {
     expect(array[2]).toBe(2);
   });
 
+  describe('static factories', () => {
+    it('from should accept iterables', () => {
+      expect([...DoubleLinkedList.from([1, 2, 3])]).toEqual([1, 2, 3]);
+      expect([...DoubleLinkedList.from(new Set(['a', 'b']))]).toEqual(['a', 'b']);
+      expect([...DoubleLinkedList.from('hi')]).toEqual(['h', 'i']);
+
+      function* generate() {
+        yield 1;
+        yield 2;
+      }
+      expect([...DoubleLinkedList.from(generate())]).toEqual([1, 2]);
+      expect(DoubleLinkedList.from([]).isEmpty()).toBe(true);
+    });
+
+    it('from should accept array-like objects and a map function', () => {
+      const arrayLike = { length: 2, 0: 'x', 1: 'y' };
+      expect([...DoubleLinkedList.from(arrayLike)]).toEqual(['x', 'y']);
+      expect([...DoubleLinkedList.from({ length: 3 }, (_, index) => index * index)]).toEqual([0, 1, 4]);
+      expect([...DoubleLinkedList.from([1, 2], (value, index) => `${value}:${index}`)]).toEqual(['1:0', '2:1']);
+    });
+
+    it('from should handle more items than the argument limit allows', () => {
+      const count = 500_000;
+      const list = DoubleLinkedList.from({ length: count }, (_, index) => index);
+      expect(list.getLength()).toBe(count);
+      expect(list.get(-1)).toBe(count - 1);
+    });
+
+    it('of should create a list from its arguments', () => {
+      const list = DoubleLinkedList.of(3, 1, 2);
+      expect(list).toBeInstanceOf(DoubleLinkedList);
+      expect([...list]).toEqual([3, 1, 2]);
+      expect(DoubleLinkedList.of().isEmpty()).toBe(true);
+    });
+
+    it('fromAsync should await async iterables, promises and map results', async () => {
+      async function* generate() {
+        yield 1;
+        await Promise.resolve();
+        yield 2;
+      }
+      expect([...(await DoubleLinkedList.fromAsync(generate()))]).toEqual([1, 2]);
+      expect([...(await DoubleLinkedList.fromAsync([Promise.resolve('a'), 'b']))]).toEqual(['a', 'b']);
+      expect([...(await DoubleLinkedList.fromAsync({ length: 2, 0: Promise.resolve(5), 1: 6 }))]).toEqual([5, 6]);
+
+      const mapped = await DoubleLinkedList.fromAsync(generate(), async (value, index) => {
+        await Promise.resolve();
+        return value * 10 + index;
+      });
+      expect([...mapped]).toEqual([10, 21]);
+    });
+
+    it('fromAsync should reject if the source rejects', async () => {
+      async function* failing() {
+        yield 1;
+        throw new Error('read failed');
+      }
+      await expect(DoubleLinkedList.fromAsync(failing())).rejects.toThrow('read failed');
+    });
+  });
+
+  describe('move methods', () => {
+    it('moveToFront should relink an existing node to the head', () => {
+      const list = new DoubleLinkedList<number>();
+      const node1 = list.append(1);
+      const node2 = list.append(2);
+      const node3 = list.append(3);
+      expect(list.moveToFront(node3)).toBe(true);
+      expect([...list]).toEqual([3, 1, 2]);
+      expect(list.getHead()).toBe(node3);
+      expect(list.getTail()).toBe(node2);
+      expect(getPreviousNode(node3)).toBeUndefined();
+      expect(getPreviousNode(node1)).toBe(node3);
+      expect(getNextNode(node2)).toBeUndefined();
+      expect(list.getLength()).toEqual(3);
+
+      expect(list.moveToFront(node3)).toBe(true);
+      expect([...list]).toEqual([3, 1, 2]);
+
+      expect(list.moveToFront(node1)).toBe(true);
+      expect([...list]).toEqual([1, 3, 2]);
+    });
+
+    it('moveToBack should relink an existing node to the tail', () => {
+      const list = new DoubleLinkedList<number>();
+      const node1 = list.append(1);
+      const node2 = list.append(2);
+      const node3 = list.append(3);
+      expect(list.moveToBack(node1)).toBe(true);
+      expect([...list]).toEqual([2, 3, 1]);
+      expect(list.getHead()).toBe(node2);
+      expect(list.getTail()).toBe(node1);
+      expect(getNextNode(node1)).toBeUndefined();
+      expect(getNextNode(node3)).toBe(node1);
+      expect(getPreviousNode(node2)).toBeUndefined();
+
+      expect(list.moveToBack(node1)).toBe(true);
+      expect([...list]).toEqual([2, 3, 1]);
+      expect(list.getLength()).toEqual(3);
+    });
+
+    it('moveBefore should relink a node before another node', () => {
+      const list = new DoubleLinkedList<string>();
+      const nodeA = list.append('a');
+      const nodeB = list.append('b');
+      const nodeC = list.append('c');
+      const nodeD = list.append('d');
+
+      expect(list.moveBefore(nodeD, nodeB)).toBe(true);
+      expect([...list]).toEqual(['a', 'd', 'b', 'c']);
+      expect(list.getTail()).toBe(nodeC);
+
+      expect(list.moveBefore(nodeC, nodeA)).toBe(true);
+      expect([...list]).toEqual(['c', 'a', 'd', 'b']);
+      expect(list.getHead()).toBe(nodeC);
+      expect(list.getTail()).toBe(nodeB);
+
+      // Already in place
+      expect(list.moveBefore(nodeC, nodeA)).toBe(true);
+      expect([...list]).toEqual(['c', 'a', 'd', 'b']);
+
+      expect(list.moveBefore(nodeA, nodeA)).toBe(false);
+      expect(getPreviousNode(nodeB)).toBe(nodeD);
+      expect(getPreviousNode(nodeD)).toBe(nodeA);
+      expect(getPreviousNode(nodeA)).toBe(nodeC);
+    });
+
+    it('moveAfter should relink a node after another node', () => {
+      const list = new DoubleLinkedList<string>();
+      const nodeA = list.append('a');
+      const nodeB = list.append('b');
+      const nodeC = list.append('c');
+
+      expect(list.moveAfter(nodeA, nodeC)).toBe(true);
+      expect([...list]).toEqual(['b', 'c', 'a']);
+      expect(list.getHead()).toBe(nodeB);
+      expect(list.getTail()).toBe(nodeA);
+
+      expect(list.moveAfter(nodeA, nodeB)).toBe(true);
+      expect([...list]).toEqual(['b', 'a', 'c']);
+      expect(getNextNode(nodeA)).toBe(nodeC);
+      expect(getPreviousNode(nodeC)).toBe(nodeA);
+      expect(list.getTail()).toBe(nodeC);
+
+      // Already in place
+      expect(list.moveAfter(nodeA, nodeB)).toBe(true);
+      expect([...list]).toEqual(['b', 'a', 'c']);
+      expect(list.moveAfter(nodeC, nodeC)).toBe(false);
+    });
+
+    it('should reject nodes from other lists or removed nodes', () => {
+      const list1 = new DoubleLinkedList<number>(1, 2);
+      const list2 = new DoubleLinkedList<number>(3);
+      const foreign = list2.getHead()!;
+      const own = list1.getHead()!;
+
+      expect(list1.moveToFront(foreign)).toBe(false);
+      expect(list1.moveToBack(foreign)).toBe(false);
+      expect(list1.moveBefore(foreign, own)).toBe(false);
+      expect(list1.moveAfter(own, foreign)).toBe(false);
+
+      list1.remove(own);
+      expect(list1.moveToBack(own)).toBe(false);
+      expect([...list1]).toEqual([2]);
+      expect([...list2]).toEqual([3]);
+    });
+
+    it('should keep node references valid for side indexes', () => {
+      const list = new DoubleLinkedList<number>();
+      const index = new Map<number, DoubleLinkedListNode<number>>();
+      for (let i = 0; i < 5; i += 1) {
+        index.set(i, list.append(i));
+      }
+
+      list.moveToFront(index.get(3)!);
+      list.moveToBack(index.get(0)!);
+      list.moveAfter(index.get(4)!, index.get(3)!);
+
+      expect([...list]).toEqual([3, 4, 1, 2, 0]);
+      for (const [value, node] of index) {
+        expect(getNodeValue(node)).toBe(value);
+        expect(getNodeList(node)).toBe(list);
+      }
+    });
+  });
+
+  describe('cross-list transfer', () => {
+    it('adoptNode should move a node from another list to the end', () => {
+      const pending = new DoubleLinkedList<string>();
+      const task1 = pending.append('task1');
+      const task2 = pending.append('task2');
+      const running = new DoubleLinkedList<string>('other');
+
+      expect(running.adoptNode(task1)).toBe(true);
+      expect([...pending]).toEqual(['task2']);
+      expect([...running]).toEqual(['other', 'task1']);
+      expect(pending.getLength()).toBe(1);
+      expect(running.getLength()).toBe(2);
+      expect(getNodeList(task1)).toBe(running);
+      expect(pending.getHead()).toBe(task2);
+      expect(getPreviousNode(task2)).toBeUndefined();
+      expect(running.getTail()).toBe(task1);
+
+      // The adopted node is fully functional in its new list
+      expect(pending.remove(task1)).toBe(false);
+      expect(running.remove(task1)).toBe(true);
+      expect([...running]).toEqual(['other']);
+    });
+
+    it('adoptNode should insert before a given node', () => {
+      const source = new DoubleLinkedList<number>(1, 2, 3);
+      const target = new DoubleLinkedList<number>(10, 20);
+      const node2 = source.getNodeAt(1)!;
+
+      expect(target.adoptNode(node2, target.getHead())).toBe(true);
+      expect([...source]).toEqual([1, 3]);
+      expect([...target]).toEqual([2, 10, 20]);
+      expect(target.getHead()).toBe(node2);
+
+      expect(target.adoptNode(source.getTail()!, target.getTail())).toBe(true);
+      expect([...source]).toEqual([1]);
+      expect([...target]).toEqual([2, 10, 3, 20]);
+    });
+
+    it('adoptNode should accept removed nodes and reject invalid positions', () => {
+      const list1 = new DoubleLinkedList<number>(1, 2);
+      const list2 = new DoubleLinkedList<number>(3);
+      const node1 = list1.getHead()!;
+
+      expect(list2.adoptNode(node1, list1.getTail())).toBe(false);
+      expect(list1.adoptNode(node1, node1)).toBe(false);
+      expect([...list1]).toEqual([1, 2]);
+
+      list1.remove(node1);
+      expect(list2.adoptNode(node1)).toBe(true);
+      expect([...list2]).toEqual([3, 1]);
+      expect(list2.getLength()).toBe(2);
+
+      // Adopting within the same list acts as a move
+      expect(list2.adoptNode(node1, list2.getHead())).toBe(true);
+      expect([...list2]).toEqual([1, 3]);
+      expect(list2.getLength()).toBe(2);
+    });
+
+    it('adoptRange should move a run of nodes between lists', () => {
+      const source = new DoubleLinkedList<number>();
+      const nodes = [1, 2, 3, 4, 5].map((value) => source.append(value));
+      const target = new DoubleLinkedList<number>(10, 20);
+
+      expect(target.adoptRange(nodes[1], nodes[3], target.getTail())).toBe(true);
+      expect([...source]).toEqual([1, 5]);
+      expect([...target]).toEqual([10, 2, 3, 4, 20]);
+      expect(source.getLength()).toBe(2);
+      expect(target.getLength()).toBe(5);
+      expect(getNextNode(nodes[0])).toBe(nodes[4]);
+      expect(getPreviousNode(nodes[4])).toBe(nodes[0]);
+      for (const node of nodes.slice(1, 4)) {
+        expect(getNodeList(node)).toBe(target);
+      }
+
+      // Whole list to the end
+      expect(target.adoptRange(source.getHead()!, source.getTail()!)).toBe(true);
+      expect(source.isEmpty()).toBe(true);
+      expect(source.getHead()).toBeUndefined();
+      expect(source.getTail()).toBeUndefined();
+      expect([...target]).toEqual([10, 2, 3, 4, 20, 1, 5]);
+      expect(target.getTail()).toBe(nodes[4]);
+    });
+
+    it('adoptRange should move a run within the same list', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = [1, 2, 3, 4, 5].map((value) => list.append(value));
+
+      expect(list.adoptRange(nodes[3], nodes[4], nodes[0])).toBe(true);
+      expect([...list]).toEqual([4, 5, 1, 2, 3]);
+      expect(list.getLength()).toBe(5);
+      expect(list.getHead()).toBe(nodes[3]);
+      expect(list.getTail()).toBe(nodes[2]);
+    });
+
+    it('adoptRange should reject invalid runs', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = [1, 2, 3, 4].map((value) => list.append(value));
+      const other = new DoubleLinkedList<number>(9);
+
+      // last before first
+      expect(other.adoptRange(nodes[2], nodes[1])).toBe(false);
+      // before inside the run
+      expect(list.adoptRange(nodes[0], nodes[2], nodes[1])).toBe(false);
+      expect(list.adoptRange(nodes[0], nodes[2], nodes[2])).toBe(false);
+      // nodes from different lists
+      expect(other.adoptRange(nodes[0], other.getHead()!)).toBe(false);
+      // before from another list
+      expect(other.adoptRange(nodes[0], nodes[1], nodes[3])).toBe(false);
+
+      expect([...list]).toEqual([1, 2, 3, 4]);
+      expect([...other]).toEqual([9]);
+    });
+  });
+
+  describe('list concatenation', () => {
+    it('appendList should relink all nodes of the other list to the end', () => {
+      const list = new DoubleLinkedList<number>(1, 2);
+      const other = new DoubleLinkedList<number>();
+      const node3 = other.append(3);
+      const node4 = other.append(4);
+      const oldTail = list.getTail();
+
+      list.appendList(other);
+      expect([...list]).toEqual([1, 2, 3, 4]);
+      expect(list.getLength()).toBe(4);
+      expect(list.getTail()).toBe(node4);
+      expect(getNextNode(oldTail)).toBe(node3);
+      expect(getPreviousNode(node3)).toBe(oldTail);
+      expect(getNodeList(node3)).toBe(list);
+      expect(getNodeList(node4)).toBe(list);
+
+      expect(other.isEmpty()).toBe(true);
+      expect(other.getLength()).toBe(0);
+      expect(other.getHead()).toBeUndefined();
+      expect(other.getTail()).toBeUndefined();
+
+      // The emptied list is still usable and independent
+      other.append(5);
+      expect([...other]).toEqual([5]);
+      expect([...list]).toEqual([1, 2, 3, 4]);
+      expect(other.remove(node3)).toBe(false);
+      expect(list.remove(node3)).toBe(true);
+      expect([...list]).toEqual([1, 2, 4]);
+    });
+
+    it('prependList should relink all nodes of the other list to the beginning', () => {
+      const list = new DoubleLinkedList<number>(3, 4);
+      const other = new DoubleLinkedList<number>(1, 2);
+      const otherHead = other.getHead();
+
+      list.prependList(other);
+      expect([...list]).toEqual([1, 2, 3, 4]);
+      expect(list.getLength()).toBe(4);
+      expect(list.getHead()).toBe(otherHead);
+      expect(getNodeValue(getPreviousNode(list.getNodeAt(2)))).toBe(2);
+      expect(other.isEmpty()).toBe(true);
+    });
+
+    it('should handle empty lists on either side', () => {
+      const list = new DoubleLinkedList<number>();
+      list.appendList(new DoubleLinkedList<number>());
+      expect(list.isEmpty()).toBe(true);
+
+      list.prependList(new DoubleLinkedList(1, 2));
+      expect([...list]).toEqual([1, 2]);
+      expect(getNodeValue(list.getTail())).toBe(2);
+
+      list.appendList(new DoubleLinkedList<number>());
+      expect([...list]).toEqual([1, 2]);
+      expect(list.getLength()).toBe(2);
+    });
+
+    it('should ignore concatenating a list with itself', () => {
+      const list = new DoubleLinkedList<number>(1, 2);
+      list.appendList(list);
+      list.prependList(list);
+      expect(list.insertListAfterNode(list.getHead()!, list)).toBe(false);
+      expect([...list]).toEqual([1, 2]);
+      expect(list.getLength()).toBe(2);
+    });
+
+    it('insertListAfterNode should splice the other list in after a node', () => {
+      const list = new DoubleLinkedList<number>(1, 4);
+      const other = new DoubleLinkedList<number>(2, 3);
+
+      expect(list.insertListAfterNode(list.getHead()!, other)).toBe(true);
+      expect([...list]).toEqual([1, 2, 3, 4]);
+      expect(list.getLength()).toBe(4);
+      expect(other.isEmpty()).toBe(true);
+      expect(getPreviousNode(list.getTail())).toBe(list.getNodeAt(2));
+
+      expect(list.insertListAfterNode(list.getTail()!, new DoubleLinkedList(5))).toBe(true);
+      expect([...list]).toEqual([1, 2, 3, 4, 5]);
+      expect(getNodeValue(list.getTail())).toBe(5);
+    });
+
+    it('insertListAfterNode should reject nodes from other lists', () => {
+      const list = new DoubleLinkedList<number>(1);
+      const other = new DoubleLinkedList<number>(2);
+      expect(list.insertListAfterNode(other.getHead()!, other)).toBe(false);
+      expect([...list]).toEqual([1]);
+      expect([...other]).toEqual([2]);
+    });
+  });
+
+  describe('splitAt method', () => {
+    it('should split by index, reusing the existing nodes', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = [1, 2, 3, 4, 5].map((value) => list.append(value));
+
+      const rest = list.splitAt(2);
+      expect([...list]).toEqual([1, 2]);
+      expect([...rest]).toEqual([3, 4, 5]);
+      expect(list.getLength()).toBe(2);
+      expect(rest.getLength()).toBe(3);
+      expect(list.getTail()).toBe(nodes[1]);
+      expect(getNextNode(nodes[1])).toBeUndefined();
+      expect(rest.getHead()).toBe(nodes[2]);
+      expect(getPreviousNode(nodes[2])).toBeUndefined();
+      expect(rest.getTail()).toBe(nodes[4]);
+      expect(getNodeList(nodes[0])).toBe(list);
+      for (const node of nodes.slice(2)) {
+        expect(getNodeList(node)).toBe(rest);
+      }
+
+      // Node handles stay usable in the new list
+      expect(rest.remove(nodes[3])).toBe(true);
+      expect([...rest]).toEqual([3, 5]);
+    });
+
+    it('should split by negative index', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const rest = list.splitAt(-1);
+      expect([...list]).toEqual([1, 2, 3]);
+      expect([...rest]).toEqual([4]);
+    });
+
+    it('should split by node reference', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c');
+      const head = list.getHead()!;
+      const rest = list.splitAt(head);
+      expect(list.isEmpty()).toBe(true);
+      expect(list.getHead()).toBeUndefined();
+      expect(list.getTail()).toBeUndefined();
+      expect([...rest]).toEqual(['a', 'b', 'c']);
+      expect(rest.getHead()).toBe(head);
+    });
+
+    it('should return an empty list for out of bounds indices or foreign nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const other = new DoubleLinkedList<number>(4);
+
+      expect(list.splitAt(3).isEmpty()).toBe(true);
+      expect(list.splitAt(-4).isEmpty()).toBe(true);
+      expect(list.splitAt(other.getHead()!).isEmpty()).toBe(true);
+      expect(new DoubleLinkedList<number>().splitAt(0).isEmpty()).toBe(true);
+      expect([...list]).toEqual([1, 2, 3]);
+      expect([...other]).toEqual([4]);
+    });
+
+    it('should be the counterpart of appendList', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5, 6);
+      const rest = list.splitAt(3);
+      list.appendList(rest);
+      expect([...list]).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(list.getLength()).toBe(6);
+      expect(rest.isEmpty()).toBe(true);
+    });
+  });
+
+  describe('sort method', () => {
+    const expectConsistentLinks = <T>(list: DoubleLinkedList<T>) => {
+      let prev: DoubleLinkedListNode<T> | undefined;
+      let node = list.getHead();
+      let count = 0;
+      while (node !== undefined) {
+        expect(getPreviousNode(node)).toBe(prev);
+        expect(getNodeList(node)).toBe(list);
+        prev = node;
+        node = getNextNode(node);
+        count += 1;
+      }
+      expect(list.getTail()).toBe(prev);
+      expect(list.getLength()).toBe(count);
+    };
+
+    it('should sort using a comparator', () => {
+      const list = new DoubleLinkedList<number>(5, 3, 8, 1, 9, 2, 7);
+      expect(list.sort((a, b) => a - b)).toBe(list);
+      expect([...list]).toEqual([1, 2, 3, 5, 7, 8, 9]);
+      expectConsistentLinks(list);
+
+      list.sort((a, b) => b - a);
+      expect([...list]).toEqual([9, 8, 7, 5, 3, 2, 1]);
+      expectConsistentLinks(list);
+    });
+
+    it('should match Array.prototype.sort for many sizes', () => {
+      for (let size = 0; size <= 40; size += 1) {
+        const values = Array.from({ length: size }, (_, index) => (index * 7919) % 13);
+        const list = new DoubleLinkedList<number>(...values);
+        list.sort((a, b) => a - b);
+        expect([...list]).toEqual([...values].sort((a, b) => a - b));
+        expectConsistentLinks(list);
+      }
+    });
+
+    it('should be stable', () => {
+      const items = [
+        { key: 2, id: 'a' },
+        { key: 1, id: 'b' },
+        { key: 2, id: 'c' },
+        { key: 1, id: 'd' },
+        { key: 0, id: 'e' },
+        { key: 2, id: 'f' }
+      ];
+      const list = new DoubleLinkedList(...items);
+      list.sort((a, b) => a.key - b.key);
+      expect([...list].map((item) => item.id)).toEqual(['e', 'b', 'd', 'a', 'c', 'f']);
+    });
+
+    it('should preserve node identity', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = [4, 2, 5, 1, 3].map((value) => list.append(value));
+      list.sort((a, b) => a - b);
+
+      expect(list.getHead()).toBe(nodes[3]);
+      expect(list.getTail()).toBe(nodes[2]);
+      expect(getNextNode(nodes[3])).toBe(nodes[1]);
+      nodes.forEach((node, index) => {
+        expect(getNodeValue(node)).toBe([4, 2, 5, 1, 3][index]);
+      });
+
+      // Node references remain fully usable
+      list.remove(nodes[4]);
+      expect([...list]).toEqual([1, 2, 4, 5]);
+    });
+
+    it('should use the Array.prototype.sort default ordering without a comparator', () => {
+      const list = new DoubleLinkedList<number | undefined>(10, undefined, 9, 1, 100);
+      list.sort();
+      expect([...list]).toEqual([10, 9, 1, 100, undefined].sort());
+      expect([...list]).toEqual([1, 10, 100, 9, undefined]);
+    });
+  });
+
+  describe('removeWhere and retainWhere methods', () => {
+    it('should remove matching items and keep the other nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      const node3 = list.getNodeAt(2);
+      const indices: number[] = [];
+      expect(
+        list.removeWhere((value, index) => {
+          indices.push(index);
+          return value % 2 === 0;
+        })
+      ).toBe(2);
+      expect([...list]).toEqual([1, 3, 5]);
+      expect(indices).toEqual([0, 1, 2, 3, 4]);
+      expect(list.getNodeAt(1)).toBe(node3);
+
+      expect(list.retainWhere((value) => value > 1)).toBe(1);
+      expect([...list]).toEqual([3, 5]);
+      expect(list.removeWhere(() => false)).toBe(0);
+      expect(list.retainWhere(() => false)).toBe(2);
+      expect(list.isEmpty()).toBe(true);
+    });
+
+    it('should keep the index in sync', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5, 6);
+      list.enableIndexing();
+      expect(list.get(5)).toBe(6);
+      list.removeWhere((value) => value % 3 === 0);
+      expect([0, 1, 2, 3].map((index) => list.get(index))).toEqual([1, 2, 4, 5]);
+    });
+  });
+
+  describe('reverse method', () => {
+    it('should reverse the list by relinking its nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const head = list.getHead()!;
+      const tail = list.getTail()!;
+      expect(list.reverse()).toBe(list);
+      expect([...list]).toEqual([3, 2, 1]);
+      expect([...list.reversed()]).toEqual([1, 2, 3]);
+      expect(list.getHead()).toBe(tail);
+      expect(list.getTail()).toBe(head);
+      expect(getPreviousNode(tail)).toBeUndefined();
+      expect(getNextNode(head)).toBeUndefined();
+      expect(list.indexOfNode(head)).toBe(2);
+    });
+
+    it('should handle empty and single-item lists', () => {
+      expect([...new DoubleLinkedList<number>().reverse()]).toEqual([]);
+      const single = new DoubleLinkedList<number>(1);
+      single.reverse();
+      expect([...single]).toEqual([1]);
+      expect(single.getHead()).toBe(single.getTail());
+    });
+
+    it('should keep the index in sync', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      list.enableIndexing();
+      expect(list.get(0)).toBe(1);
+      list.reverse();
+      expect(list.get(0)).toBe(4);
+      expect(list.get(-1)).toBe(1);
+    });
+  });
+
+  describe('rotate method', () => {
+    it('should match rotating an array', () => {
+      const items = [1, 2, 3, 4, 5];
+      for (const count of [-7, -5, -3, -1, 0, 1, 2, 3, 4, 5, 12]) {
+        const list = new DoubleLinkedList<number>(...items);
+        const nodes = [...list.nodes()];
+        const shift = ((count % items.length) + items.length) % items.length;
+        const expected = [...items.slice(items.length - shift), ...items.slice(0, items.length - shift)];
+
+        expect(list.rotate(count)).toBe(list);
+        expect([...list]).toEqual(expected);
+        expect([...list.reversed()]).toEqual([...expected].reverse());
+        expect(getPreviousNode(list.getHead())).toBeUndefined();
+        expect(getNextNode(list.getTail())).toBeUndefined();
+        expect(new Set(list.nodes())).toEqual(new Set(nodes));
+      }
+    });
+
+    it('should handle empty lists and keep the index in sync', () => {
+      expect([...new DoubleLinkedList<number>().rotate(3)]).toEqual([]);
+
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      list.enableIndexing();
+      expect(list.get(0)).toBe(1);
+      list.rotate(1);
+      expect(list.get(0)).toBe(3);
+      expect(list.indexOfNode(list.getTail()!)).toBe(2);
+    });
+
+    it('should reject counts that are not integers', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      for (const count of [NaN, Infinity, -Infinity, 1.5]) {
+        expect(() => list.rotate(count)).toThrow(RangeError);
+      }
+      expect(() => new DoubleLinkedList<number>().rotate(NaN)).toThrow(RangeError);
+      expect([...list]).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('dedupe method', () => {
+    it('should remove consecutive duplicates by default', () => {
+      const list = new DoubleLinkedList<number>(1, 1, 2, 1, NaN, NaN, 3, 3, 3);
+      const first = list.getHead();
+      expect(list.dedupe()).toBe(4);
+      expect([...list]).toEqual([1, 2, 1, NaN, 3]);
+      expect(list.getHead()).toBe(first);
+    });
+
+    it('should remove global duplicates, keeping the first occurrence', () => {
+      const list = new DoubleLinkedList<number>(3, 1, 3, 2, 1, NaN, NaN);
+      expect(list.dedupe(undefined, 'global')).toBe(3);
+      expect([...list]).toEqual([3, 1, 2, NaN]);
+    });
+
+    it('should compare the keys produced by keyFn', () => {
+      const users = new DoubleLinkedList<{ id: number; name: string }>(
+        { id: 1, name: 'a' },
+        { id: 1, name: 'b' },
+        { id: 2, name: 'c' },
+        { id: 1, name: 'd' }
+      );
+      expect(users.dedupe((user) => user.id)).toBe(1);
+      expect(users.map((user) => user.name).toArray()).toEqual(['a', 'c', 'd']);
+      expect(users.dedupe((user) => user.id, 'global')).toBe(1);
+      expect(users.map((user) => user.name).toArray()).toEqual(['a', 'c']);
+    });
+  });
+
+  describe('indexOfNode method', () => {
+    it('should return the position of a node even when values repeat', () => {
+      const list = new DoubleLinkedList<string>();
+      const nodes = ['a', 'b', 'a', 'b'].map((value) => list.append(value));
+      nodes.forEach((node, index) => {
+        expect(list.indexOfNode(node)).toBe(index);
+      });
+      expect(list.indexOf('a')).toBe(0);
+    });
+
+    it('should find nodes near either end', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = Array.from({ length: 9 }, (_, index) => list.append(index));
+      nodes.forEach((node, index) => {
+        expect(list.indexOfNode(node)).toBe(index);
+      });
+    });
+
+    it('should return -1 for foreign or removed nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2);
+      const other = new DoubleLinkedList<number>(3);
+      expect(list.indexOfNode(other.getHead()!)).toBe(-1);
+
+      const head = list.getHead()!;
+      list.remove(head);
+      expect(list.indexOfNode(head)).toBe(-1);
+    });
+  });
+
+  describe('compareNodePositions method', () => {
+    it('should order nodes of the same list', () => {
+      const list = new DoubleLinkedList<string>();
+      const nodes = ['a', 'b', 'c', 'd', 'e'].map((value) => list.append(value));
+
+      for (let i = 0; i < nodes.length; i += 1) {
+        for (let j = 0; j < nodes.length; j += 1) {
+          expect(Math.sign(list.compareNodePositions(nodes[i], nodes[j])!)).toBe(Math.sign(i - j));
+        }
+      }
+    });
+
+    it('should work with indexing enabled', () => {
+      const list = new DoubleLinkedList<number>();
+      const nodes = [1, 2, 3, 4].map((value) => list.append(value));
+      list.enableIndexing();
+      expect(list.compareNodePositions(nodes[0], nodes[3])!).toBeLessThan(0);
+      expect(list.compareNodePositions(nodes[2], nodes[1])!).toBeGreaterThan(0);
+      expect(list.compareNodePositions(nodes[2], nodes[2])).toBe(0);
+    });
+
+    it('should return undefined for foreign or removed nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const other = new DoubleLinkedList<number>(4);
+      const head = list.getHead()!;
+      expect(list.compareNodePositions(head, other.getHead()!)).toBeUndefined();
+      expect(list.compareNodePositions(other.getHead()!, head)).toBeUndefined();
+
+      list.remove(head);
+      expect(list.compareNodePositions(head, list.getTail()!)).toBeUndefined();
+    });
+  });
+
+  describe('indexing', () => {
+    it('should be disabled by default and toggleable', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      expect(list.isIndexed()).toBe(false);
+      list.enableIndexing();
+      list.enableIndexing();
+      expect(list.isIndexed()).toBe(true);
+      expect(list.get(1)).toBe(2);
+      list.disableIndexing();
+      expect(list.isIndexed()).toBe(false);
+      expect(list.get(1)).toBe(2);
+    });
+
+    it('should answer positional queries after every kind of mutation', () => {
+      const list = new DoubleLinkedList<number>();
+      list.enableIndexing();
+      const model: number[] = [];
+
+      const expectInSync = () => {
+        expect(list.getLength()).toBe(model.length);
+        model.forEach((value, index) => {
+          const node = list.getNodeAt(index)!;
+          expect(getNodeValue(node)).toBe(value);
+          expect(list.indexOfNode(node)).toBe(index);
+        });
+        expect(list.get(-1)).toBe(model[model.length - 1]);
+      };
+
+      let seed = 12345;
+      const random = (max: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % max;
+      };
+
+      let nextValue = 0;
+      for (let step = 0; step < 300; step += 1) {
+        const value = nextValue;
+        nextValue += 1;
+        const position = random(model.length + 1);
+        const node = model.length > 0 ? list.getNodeAt(Math.min(position, model.length - 1)) : undefined;
+        const nodeIndex = Math.min(position, model.length - 1);
+
+        switch (random(10)) {
+          case 0:
+            list.append(value);
+            model.push(value);
+            break;
+          case 1:
+            list.prepend(value);
+            model.unshift(value);
+            break;
+          case 2:
+            if (node !== undefined) {
+              list.insertAfterNode(node, value);
+              model.splice(nodeIndex + 1, 0, value);
+            }
+            break;
+          case 3:
+            if (node !== undefined) {
+              list.insertBeforeNode(node, value);
+              model.splice(nodeIndex, 0, value);
+            }
+            break;
+          case 4:
+            if (node !== undefined) {
+              list.remove(node);
+              model.splice(nodeIndex, 1);
+            }
+            break;
+          case 5:
+            list.splice(position, 2, value, value + 0.5);
+            model.splice(position, 2, value, value + 0.5);
+            break;
+          case 6:
+            if (node !== undefined) {
+              list.moveToFront(node);
+              model.unshift(...model.splice(nodeIndex, 1));
+            }
+            break;
+          case 7:
+            if (node !== undefined) {
+              const target = list.getHead()!;
+              if (list.moveAfter(node, target)) {
+                const [moved] = model.splice(nodeIndex, 1);
+                model.splice(model.indexOf(getNodeValue(target)) + 1, 0, moved);
+              }
+            }
+            break;
+          case 8:
+            list.pop();
+            model.pop();
+            break;
+          default:
+            list.shift();
+            model.shift();
+            break;
+        }
+
+        if (step % 10 === 0) {
+          expectInSync();
+        }
+      }
+
+      expectInSync();
+    });
+
+    it('should stay correct after bulk relinking operations', () => {
+      const list = new DoubleLinkedList<number>(5, 3, 1, 4, 2);
+      list.enableIndexing();
+      expect(list.get(2)).toBe(1);
+
+      list.sort((a, b) => a - b);
+      expect([0, 1, 2, 3, 4].map((index) => list.get(index))).toEqual([1, 2, 3, 4, 5]);
+
+      list.appendList(new DoubleLinkedList(6, 7));
+      expect(list.get(6)).toBe(7);
+      expect(list.indexOfNode(list.getTail()!)).toBe(6);
+
+      const rest = list.splitAt(3);
+      expect(list.get(2)).toBe(3);
+      expect(list.get(3)).toBeUndefined();
+      expect(rest.get(0)).toBe(4);
+
+      const other = new DoubleLinkedList<number>(10, 20);
+      other.enableIndexing();
+      expect(other.get(1)).toBe(20);
+      other.adoptNode(list.getHead()!, other.getTail());
+      expect([0, 1, 2].map((index) => other.get(index))).toEqual([10, 1, 20]);
+      expect(list.get(0)).toBe(2);
+      expect(list.indexOfNode(list.getTail()!)).toBe(1);
+
+      other.prependList(rest);
+      expect(other.get(4)).toBe(10);
+      other.clear();
+      expect(other.get(0)).toBeUndefined();
+      other.append(42);
+      expect(other.get(0)).toBe(42);
+      expect(other.indexOfNode(other.getHead()!)).toBe(0);
+    });
+  });
+
+  describe('range and slice views', () => {
+    it('range should cover the nodes between two nodes in either direction', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c', 'd', 'e');
+      const nodeB = list.getNodeAt(1)!;
+      const nodeD = list.getNodeAt(3)!;
+
+      const forward = list.range(nodeB, nodeD);
+      expect(forward.toArray()).toEqual(['b', 'c', 'd']);
+      expect([...forward]).toEqual(['b', 'c', 'd']);
+      expect(forward.getLength()).toBe(3);
+      expect(forward.getStartNode()).toBe(nodeB);
+      expect(forward.getEndNode()).toBe(nodeD);
+
+      const backward = list.range(nodeD, nodeB);
+      expect(backward.toArray()).toEqual(['d', 'c', 'b']);
+
+      expect(list.range(nodeB, nodeB).toArray()).toEqual(['b']);
+    });
+
+    it('range should be empty for foreign nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const other = new DoubleLinkedList<number>(4);
+      const range = list.range(list.getHead()!, other.getHead()!);
+      expect(range.isEmpty()).toBe(true);
+      expect(range.toArray()).toEqual([]);
+      expect(range.removeAll()).toBe(0);
+      expect([...list]).toEqual([1, 2, 3]);
+    });
+
+    it('slice should follow Array.prototype.slice index semantics', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      const array = [1, 2, 3, 4, 5];
+      const bounds: Array<[number | undefined, number | undefined]> = [
+        [undefined, undefined],
+        [1, 4],
+        [1, -1],
+        [-2, undefined],
+        [-10, 2],
+        [3, 100],
+        [4, 2],
+        [5, undefined],
+        [NaN, undefined],
+        [NaN, NaN],
+        [1.5, 3.9],
+        [-1.5, undefined]
+      ];
+      for (const [start, end] of bounds) {
+        expect(list.slice(start, end).toArray()).toEqual(array.slice(start, end));
+      }
+
+      expect(new DoubleLinkedList<number>().slice().isEmpty()).toBe(true);
+    });
+
+    it('forEach, map and find should receive range-relative indices', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      const view = list.slice(2);
+
+      const visited: Array<[number, number]> = [];
+      view.forEach((value, index, range) => {
+        expect(range).toBe(view);
+        visited.push([value, index]);
+      });
+      expect(visited).toEqual([
+        [3, 0],
+        [4, 1],
+        [5, 2]
+      ]);
+
+      const mapped = view.map((value, index) => value * 10 + index);
+      expect(mapped).toBeInstanceOf(DoubleLinkedList);
+      expect([...mapped]).toEqual([30, 41, 52]);
+
+      expect(view.find((value) => value % 2 === 0)).toBe(4);
+      expect(view.find((value) => value < 3)).toBeUndefined();
+    });
+
+    it('removeAll should remove only the covered nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5, 6);
+      list.enableIndexing();
+      expect(list.slice(1, 3).removeAll()).toBe(2);
+      expect([...list]).toEqual([1, 4, 5, 6]);
+      expect(list.get(1)).toBe(4);
+
+      expect(list.range(list.getTail()!, list.getNodeAt(2)!).removeAll()).toBe(2);
+      expect([...list]).toEqual([1, 4]);
+      expect(list.getTail()).toBe(list.getNodeAt(1));
+    });
+
+    it('removeAll should do nothing for stale ranges', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const view = list.slice(1, 3);
+      list.moveToFront(view.getEndNode()!);
+      expect(view.removeAll()).toBe(0);
+
+      list.shift();
+      expect(view.removeAll()).toBe(0);
+      expect([...list]).toEqual([1, 2, 4]);
+    });
+
+    it('forEach should tolerate removing the current node', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const view = list.range(list.getHead()!, list.getTail()!);
+      const visited: number[] = [];
+      view.forEach((value) => {
+        visited.push(value);
+        if (value % 2 === 0) {
+          list.remove(list.getNodeAt(list.indexOf(value))!);
+        }
+      });
+      expect(visited).toEqual([1, 2, 3, 4]);
+      expect([...list]).toEqual([1, 3]);
+    });
+  });
+
+  describe('cursors', () => {
+    it('cursorAt should position the cursor by node or index', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c');
+      expect(list.cursorAt(0)!.value).toBe('a');
+      expect(list.cursorAt(-1)!.value).toBe('c');
+      expect(list.cursorAt(list.getNodeAt(1)!)!.getNode()).toBe(list.getNodeAt(1));
+      expect(list.cursorAt(3)!.isAtEnd()).toBe(true);
+      expect(list.cursorAt(4)).toBeUndefined();
+      expect(list.cursorAt(-4)).toBeUndefined();
+
+      const other = new DoubleLinkedList<string>('x');
+      expect(list.cursorAt(other.getHead()!)).toBeUndefined();
+
+      const empty = new DoubleLinkedList<string>().cursorAt(0)!;
+      expect(empty.isAtEnd()).toBe(true);
+      expect(empty.isAtStart()).toBe(true);
+      expect(empty.prev()).toBe(false);
+      expect(empty.value).toBeUndefined();
+    });
+
+    it('next and prev should move in both directions', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const cursor = list.cursorAt(0)!;
+      expect(cursor.isAtStart()).toBe(true);
+      expect(cursor.prev()).toBe(false);
+
+      const forward: number[] = [];
+      while (!cursor.isAtEnd()) {
+        forward.push(cursor.value!);
+        cursor.next();
+      }
+      expect(forward).toEqual([1, 2, 3]);
+      expect(cursor.next()).toBe(false);
+
+      const backward: number[] = [];
+      while (cursor.prev()) {
+        backward.push(cursor.value!);
+      }
+      expect(backward).toEqual([3, 2, 1]);
+      expect(cursor.isAtStart()).toBe(true);
+    });
+
+    it('insertBefore and insertAfter should leave the cursor in place', () => {
+      const list = new DoubleLinkedList<string>('b', 'd');
+      const cursor = list.cursorAt(0)!;
+      const nodeA = cursor.insertBefore('a');
+      const nodeC = cursor.insertAfter('c');
+      expect(cursor.value).toBe('b');
+      expect(getNextNode(nodeA)).toBe(cursor.getNode());
+      expect(getPreviousNode(nodeC)).toBe(cursor.getNode());
+      expect([...list]).toEqual(['a', 'b', 'c', 'd']);
+
+      cursor.next();
+      cursor.next();
+      cursor.next();
+      expect(cursor.isAtEnd()).toBe(true);
+      expect(cursor.insertAfter('x')).toBeUndefined();
+      const nodeE = cursor.insertBefore('e');
+      expect(list.getTail()).toBe(nodeE);
+      expect(cursor.isAtEnd()).toBe(true);
+      expect([...list]).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('remove should advance and replace should keep the node', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const cursor = list.cursorAt(1)!;
+      const node = cursor.getNode();
+
+      expect(cursor.replace(20)).toBe(2);
+      expect(cursor.getNode()).toBe(node);
+      expect([...list]).toEqual([1, 20, 3]);
+
+      expect(cursor.remove()).toBe(20);
+      expect(cursor.value).toBe(3);
+      expect(cursor.remove()).toBe(3);
+      expect(cursor.isAtEnd()).toBe(true);
+      expect(cursor.remove()).toBeUndefined();
+      expect(cursor.replace(0)).toBeUndefined();
+      expect([...list]).toEqual([1]);
+    });
+
+    it('should move to the end when its node is removed by other code', () => {
+      const list = new DoubleLinkedList<number>(1, 2);
+      const cursor = list.cursorAt(0)!;
+      list.remove(list.getHead()!);
+      expect(cursor.isAtEnd()).toBe(true);
+      expect(cursor.prev()).toBe(true);
+      expect(cursor.value).toBe(2);
+    });
+  });
+
   describe('Iterator support', () => {
     it('should support for...of loops', () => {
       const list = new DoubleLinkedList<number>(1, 2, 3);
@@ -258,6 +1339,690 @@ describe('DoubleLinkedList', () => {
       const array = Array.from(list);
       expect(array).toEqual([10, 20, 30]);
     });
+
+    it('values and reversed should iterate in either direction', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      expect([...list.values()]).toEqual([1, 2, 3, 4]);
+      expect([...list.reversed()]).toEqual([4, 3, 2, 1]);
+
+      const values: number[] = [];
+      for (const value of list.reversed()) {
+        values.push(value);
+      }
+      expect(values).toEqual([4, 3, 2, 1]);
+
+      expect([...new DoubleLinkedList<number>().reversed()]).toEqual([]);
+    });
+
+    it('iterators should start from an arbitrary node', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c', 'd');
+      const nodeB = list.getNodeAt(1)!;
+      expect([...list.values(nodeB)]).toEqual(['b', 'c', 'd']);
+      expect([...list.reversed(nodeB)]).toEqual(['b', 'a']);
+      expect([...list.nodes(nodeB)].map(getNodeValue)).toEqual(['b', 'c', 'd']);
+      expect([...list.nodesReversed(nodeB)].map(getNodeValue)).toEqual(['b', 'a']);
+
+      const other = new DoubleLinkedList<string>('x');
+      expect([...list.values(other.getHead())]).toEqual([]);
+      expect([...list.nodesReversed(other.getHead())]).toEqual([]);
+    });
+
+    it('nodes and nodesReversed should yield the list nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const head = list.getHead()!;
+      const tail = list.getTail()!;
+      const nodes = [...list.nodes()];
+      expect(nodes).toHaveLength(3);
+      expect(nodes[0]).toBe(head);
+      expect(nodes[2]).toBe(tail);
+      expect([...list.nodesReversed()]).toEqual(nodes.reverse());
+    });
+
+    it('nodes should allow removing the yielded node', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      for (const node of list.nodes()) {
+        if (getNodeValue(node) % 2 === 0) {
+          list.remove(node);
+        }
+      }
+      expect([...list]).toEqual([1, 3, 5]);
+
+      for (const node of list.nodesReversed()) {
+        list.remove(node);
+      }
+      expect(list.isEmpty()).toBe(true);
+    });
+
+    it('entries and keys should pair items with their indices', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c');
+      expect([...list.entries()]).toEqual([
+        [0, 'a'],
+        [1, 'b'],
+        [2, 'c']
+      ]);
+      expect([...list.keys()]).toEqual([0, 1, 2]);
+      expect(new Map(list.entries()).get(1)).toBe('b');
+    });
+  });
+
+  describe('modification during iteration', () => {
+    it('removing the current node should not end for...of early', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      const visited: number[] = [];
+      for (const value of list) {
+        visited.push(value);
+        list.remove(list.getNodeAt(list.indexOf(value))!);
+      }
+      expect(visited).toEqual([1, 2, 3, 4, 5]);
+      expect(list.isEmpty()).toBe(true);
+    });
+
+    it('forEach should continue after removing the current and following nodes', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4, 5, 6);
+      const nodes = [...list.nodes()];
+      const visited: number[] = [];
+      list.forEach((value, index) => {
+        visited.push(value);
+        if (value === 2) {
+          list.remove(nodes[1]);
+          list.remove(nodes[2]);
+          list.remove(nodes[3]);
+        }
+        expect(index).toBe(visited.length - 1);
+      });
+      expect(visited).toEqual([1, 2, 5, 6]);
+      expect([...list]).toEqual([1, 5, 6]);
+    });
+
+    it('nodes inserted after the current node should be visited', () => {
+      const list = new DoubleLinkedList<number>(1, 3);
+      const visited: number[] = [];
+      for (const node of list.nodes()) {
+        visited.push(getNodeValue(node));
+        if (getNodeValue(node) === 1) {
+          list.insertAfterNode(node, 2);
+          list.prepend(0);
+        }
+      }
+      expect(visited).toEqual([1, 2, 3]);
+      expect([...list]).toEqual([0, 1, 2, 3]);
+    });
+
+    it('nodes inserted where a removed current node used to be should be skipped', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c');
+      const visited: string[] = [];
+      for (const node of list.nodes()) {
+        visited.push(getNodeValue(node));
+        if (getNodeValue(node) === 'a') {
+          list.remove(node);
+          list.prepend('x');
+        }
+      }
+      expect(visited).toEqual(['a', 'b', 'c']);
+      expect([...list]).toEqual(['x', 'b', 'c']);
+    });
+
+    it('reverse traversals should continue toward the head', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const visited: number[] = [];
+      for (const node of list.nodesReversed()) {
+        visited.push(getNodeValue(node));
+        list.remove(node);
+        if (getNodeValue(node) === 4) {
+          list.remove(list.getTail()!); // Removes 3 before it's reached
+        }
+      }
+      expect(visited).toEqual([4, 2, 1]);
+      expect(list.isEmpty()).toBe(true);
+    });
+
+    it('moved and transferred nodes should be treated as removed', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const visited: number[] = [];
+      for (const node of list.nodes()) {
+        visited.push(getNodeValue(node));
+        if (getNodeValue(node) === 1) {
+          list.moveToBack(node);
+        }
+      }
+      expect(visited).toEqual([1, 2, 3, 4, 1]);
+
+      const other = new DoubleLinkedList<number>();
+      const seen: number[] = [];
+      list.forEach((value) => {
+        seen.push(value);
+        if (value === 3) {
+          other.adoptRange(list.getNodeAt(1)!, list.getNodeAt(2)!);
+        }
+      });
+      expect(seen).toEqual([2, 3, 1]);
+      expect([...other]).toEqual([3, 4]);
+
+      const drained: number[] = [];
+      for (const value of list) {
+        drained.push(value);
+        other.appendList(list);
+      }
+      expect(drained).toEqual([2]);
+    });
+
+    it('clear should end the traversal', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const visited: number[] = [];
+      list.forEach((value) => {
+        visited.push(value);
+        list.clear();
+      });
+      expect(visited).toEqual([1]);
+    });
+
+    it('find and map should tolerate removal', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const found = list.find((value) => {
+        list.remove(list.getHead()!);
+        return value === 3;
+      });
+      expect(found).toBe(3);
+      expect([...list]).toEqual([4]);
+
+      const source = new DoubleLinkedList<number>(1, 2, 3);
+      const mapped = source.map((value) => {
+        source.remove(source.getHead()!);
+        return value * 2;
+      });
+      expect([...mapped]).toEqual([2, 4, 6]);
+    });
+
+    it('breaking out of a loop should stop tracking the traversal', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      for (const value of list) {
+        if (value === 2) {
+          break;
+        }
+      }
+      const [first] = list.nodes();
+      expect(getNodeValue(first)).toBe(1);
+      list.remove(list.getNodeAt(1)!);
+      expect([...list]).toEqual([1, 3]);
+    });
+
+    it('abandoned iterators should not affect the list', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const iterators = Array.from({ length: 1000 }, () => {
+        const iterator = list.values();
+        iterator.next();
+        return iterator;
+      });
+      list.remove(list.getHead()!);
+      list.append(4);
+      expect([...list]).toEqual([2, 3, 4]);
+
+      // An iterator that's picked up again continues from where the list now is
+      expect([...iterators[0]]).toEqual([2, 3, 4]);
+    });
+
+    it('callback traversals should continue after the current node and both of its neighbors are removed', () => {
+      const list = new DoubleLinkedList<number>(0, 1, 2, 3, 4);
+      const visited: number[] = [];
+      list.forEach((value) => {
+        visited.push(value);
+        if (value === 2) {
+          list.removeWhere((x) => x >= 1 && x <= 3);
+          list.append(10);
+        }
+      });
+      expect(visited).toEqual([0, 1, 2, 4, 10]);
+      expect([...list]).toEqual([0, 4, 10]);
+
+      const source = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const mapped = source.map((value) => {
+        if (value === 2) {
+          source.removeWhere((x) => x <= 3);
+          source.append(10);
+        }
+        return value;
+      });
+      expect([...mapped]).toEqual([1, 2, 4, 10]);
+
+      const reversed = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const seen: number[] = [];
+      reversed.reduceRight((_, value) => {
+        seen.push(value);
+        if (value === 3) {
+          reversed.removeWhere((x) => x >= 2);
+          reversed.prepend(0);
+        }
+        return 0;
+      }, 0);
+      expect(seen).toEqual([4, 3, 1, 0]);
+
+      const pruned = new DoubleLinkedList<number>(1, 2, 3, 4, 5);
+      pruned.removeWhere((value) => {
+        if (value === 2) {
+          pruned.removeWhere((x) => x === 1 || x === 3);
+        }
+        return value === 4;
+      });
+      expect([...pruned]).toEqual([2, 5]);
+    });
+
+    it('iterators should start again when the current node and both of its neighbors are removed', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const visited: number[] = [];
+      for (const node of list.nodes()) {
+        visited.push(getNodeValue(node));
+        if (getNodeValue(node) === 2) {
+          list.remove(getPreviousNode(node)!);
+          list.remove(getNextNode(node)!);
+          list.remove(node);
+          list.append(10);
+        }
+      }
+      expect(visited).toEqual([1, 2, 4, 10]);
+      expect([...list]).toEqual([4, 10]);
+    });
+
+    it('strict iteration should throw on concurrent modification', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      expect(list.isStrictIteration()).toBe(false);
+      list.enableStrictIteration();
+      expect(list.isStrictIteration()).toBe(true);
+
+      expect(() => {
+        for (const value of list) {
+          list.append(value);
+        }
+      }).toThrow(ConcurrentModificationError);
+      expect([...list]).toEqual([1, 2, 3, 1]);
+
+      expect(() => list.forEach(() => list.remove(list.getTail()!))).toThrow(ConcurrentModificationError);
+      expect(() => list.forEach(() => list.moveToFront(list.getTail()!))).toThrow(ConcurrentModificationError);
+
+      // Modifications outside of a traversal are fine
+      list.append(4);
+      expect(list.find((value) => value === 4)).toBe(4);
+
+      list.disableStrictIteration();
+      list.forEach(() => list.remove(list.getHead()!));
+      expect(list.isEmpty()).toBe(true);
+    });
+  });
+
+  describe('observers', () => {
+    /** Records the events a list reports as strings, with the values of the nodes involved */
+    const record = <T>(list: DoubleLinkedList<T>) => {
+      const events: string[] = [];
+      const stop = list.observe({
+        onInsert: (node, index) => events.push(`insert ${String(getNodeValue(node))} at ${String(index)}`),
+        onRemove: (value, node) => events.push(`remove ${String(value)}${getNodeList(node) === undefined ? '' : ' (moved)'}`),
+        onMove: (node) => events.push(`move ${String(getNodeValue(node))}`),
+        onClear: () => events.push('clear'),
+        onBatch: (phase, operation) => events.push(`${phase} ${operation}`)
+      });
+      return { events, stop };
+    };
+
+    it('should report insertions and removals', () => {
+      const list = new DoubleLinkedList(2, 3);
+      const { events } = record(list);
+
+      list.append(4);
+      list.prepend(1);
+      list.insertAfterNode(list.getHead()!, 1.5);
+      list.insertBeforeNode(list.getTail()!, 3.5);
+      list.insertAfterNode(list.getTail()!, 5); // Delegates to append
+      list.push(6);
+      list.unshift(0);
+      expect(events).toEqual([
+        'insert 4 at 2',
+        'insert 1 at 0',
+        'insert 1.5 at undefined',
+        'insert 3.5 at undefined',
+        'insert 5 at 6',
+        'insert 6 at 7',
+        'insert 0 at 0'
+      ]);
+
+      events.length = 0;
+      list.pop();
+      list.shift();
+      list.remove(getNextNode(list.getHead()!)!);
+      list.remove(new DoubleLinkedList(9).getHead()!);
+      expect(events).toEqual(['remove 6', 'remove 0', 'remove 1.5']);
+    });
+
+    it('should report clear once, and only if the list had items', () => {
+      const list = new DoubleLinkedList(1, 2, 3);
+      const { events } = record(list);
+      list.clear();
+      list.clear();
+      expect(events).toEqual(['clear']);
+      expect(list.isEmpty()).toBe(true);
+
+      // Observers stay registered after clearing
+      list.append(4);
+      expect(events).toEqual(['clear', 'insert 4 at 0']);
+    });
+
+    it('should report moves only when a node changes position', () => {
+      const list = new DoubleLinkedList('a', 'b', 'c');
+      const { events } = record(list);
+      const [a, b, c] = [...list.nodes()];
+
+      list.moveToFront(a);
+      list.moveToBack(c);
+      list.moveBefore(a, b);
+      list.moveAfter(b, a);
+      expect(events).toEqual([]);
+
+      list.moveToFront(c);
+      list.moveToBack(c);
+      list.moveBefore(c, a);
+      list.moveAfter(a, b);
+      expect(events).toEqual(['move c', 'move c', 'move c', 'move a']);
+      expect([...list]).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should report splice and removeWhere as batches', () => {
+      const list = new DoubleLinkedList(1, 2, 3, 4);
+      const { events } = record(list);
+
+      list.splice(1, 2, 20, 30);
+      list.splice(undefined, 0, 5);
+      expect(events).toEqual([
+        'start splice',
+        'remove 2',
+        'remove 3',
+        'insert 20 at undefined',
+        'insert 30 at undefined',
+        'end splice',
+        'start splice',
+        'insert 5 at 4',
+        'end splice'
+      ]);
+
+      events.length = 0;
+      list.removeWhere((x) => x === 20);
+      list.retainWhere((x) => x !== 30);
+      list.append(5);
+      list.dedupe();
+      expect(events).toEqual([
+        'start removeWhere',
+        'remove 20',
+        'end removeWhere',
+        'start retainWhere',
+        'remove 30',
+        'end retainWhere',
+        'insert 5 at 3',
+        'start dedupe',
+        'remove 5',
+        'end dedupe'
+      ]);
+
+      // The batch is closed even if the predicate throws
+      events.length = 0;
+      expect(() =>
+        list.removeWhere(() => {
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+      expect(events).toEqual(['start removeWhere', 'end removeWhere']);
+    });
+
+    it('should report reordering as a batch of moves in the new order', () => {
+      const list = new DoubleLinkedList(3, 1, 2, 4);
+      const { events } = record(list);
+
+      list.sort((a, b) => a - b);
+      list.reverse();
+      expect(events).toEqual([
+        'start sort',
+        'move 1',
+        'move 2',
+        'move 3',
+        'move 4',
+        'end sort',
+        'start reverse',
+        'move 4',
+        'move 3',
+        'move 2',
+        'move 1',
+        'end reverse'
+      ]);
+
+      // Only the nodes that wrap around move
+      events.length = 0;
+      list.rotate(1);
+      list.rotate(0);
+      list.rotate(-2);
+      expect([...list]).toEqual([3, 2, 1, 4]);
+      expect(events).toEqual(['start rotate', 'move 1', 'end rotate', 'start rotate', 'move 3', 'move 2', 'end rotate']);
+    });
+
+    it('should report transfers between lists on both sides', () => {
+      const source = new DoubleLinkedList(1, 2, 3, 4);
+      const target = new DoubleLinkedList(10);
+      const sourceEvents = record(source).events;
+      const targetEvents = record(target).events;
+
+      target.adoptNode(source.getHead()!);
+      target.adoptNode(target.getTail()!, target.getHead()!);
+      target.adoptRange(source.getHead()!, getNextNode(source.getHead()!)!);
+      expect([...target]).toEqual([1, 10, 2, 3]);
+      expect(sourceEvents).toEqual(['remove 1 (moved)', 'start adoptRange', 'remove 2 (moved)', 'remove 3 (moved)', 'end adoptRange']);
+      expect(targetEvents).toEqual(['insert 1 at 1', 'move 1', 'start adoptRange', 'insert 2 at 2', 'insert 3 at 3', 'end adoptRange']);
+
+      sourceEvents.length = 0;
+      targetEvents.length = 0;
+      target.adoptRange(getNextNode(target.getHead()!)!, target.getTail()!, target.getHead()!);
+      expect(targetEvents).toEqual(['start adoptRange', 'move 10', 'move 2', 'move 3', 'end adoptRange']);
+
+      targetEvents.length = 0;
+      target.appendList(source);
+      expect(sourceEvents).toEqual(['clear']);
+      expect(targetEvents).toEqual(['start appendList', 'insert 4 at 4', 'end appendList']);
+
+      targetEvents.length = 0;
+      target.prependList(new DoubleLinkedList(0));
+      target.insertListAfterNode(target.getHead()!, new DoubleLinkedList(0.5));
+      expect(targetEvents).toEqual([
+        'start prependList',
+        'insert 0 at 0',
+        'end prependList',
+        'start insertListAfterNode',
+        'insert 0.5 at undefined',
+        'end insertListAfterNode'
+      ]);
+
+      targetEvents.length = 0;
+      target.slice(1, 3).removeAll();
+      expect(targetEvents).toEqual(['start removeAll', 'remove 0.5', 'remove 10', 'end removeAll']);
+
+      targetEvents.length = 0;
+      const rest = target.splitAt(-2);
+      expect([...rest]).toEqual([1, 4]);
+      expect(targetEvents).toEqual(['start splitAt', 'remove 1 (moved)', 'remove 4 (moved)', 'end splitAt']);
+    });
+
+    it('should stop notifying after unregistering', () => {
+      const list = new DoubleLinkedList<number>();
+      const first = record(list);
+      const second = record(list);
+
+      first.stop();
+      first.stop();
+      list.append(1);
+      expect(first.events).toEqual([]);
+      expect(second.events).toEqual(['insert 1 at 0']);
+
+      // Unregistering during a notification doesn't skip the other observers
+      const calls: string[] = [];
+      const stopSelf = list.observe({
+        onInsert: () => {
+          calls.push('self');
+          stopSelf();
+        }
+      });
+      list.observe({ onInsert: () => calls.push('other') });
+      list.append(2);
+      list.append(3);
+      expect(calls).toEqual(['self', 'other', 'other']);
+
+      second.stop();
+      list.append(4);
+      expect(second.events).toEqual(['insert 1 at 0', 'insert 2 at 1', 'insert 3 at 2']);
+    });
+  });
+
+  describe('async iteration', () => {
+    const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+    it('should support for await...of, including removal while the loop body awaits', async () => {
+      const list = new DoubleLinkedList(1, 2, 3, 4);
+      const visited: number[] = [];
+      for await (const value of list) {
+        visited.push(value);
+        await delay(0);
+        if (value === 1) {
+          list.remove(list.getNodeAt(1)!); // Not yet reached -- skipped
+          list.remove(list.getHead()!); // The current node
+        }
+      }
+      expect(visited).toEqual([1, 3, 4]);
+      expect(list.toArray()).toEqual([3, 4]);
+    });
+
+    it('should run forEachAsync callbacks in order with bounded concurrency', async () => {
+      const list = new DoubleLinkedList(30, 10, 20, 5, 15);
+      const started: number[] = [];
+      const indices: number[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      await list.forEachAsync(
+        async (ms, index, lst) => {
+          expect(lst).toBe(list);
+          started.push(ms);
+          indices.push(index);
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await delay(ms);
+          inFlight -= 1;
+        },
+        { concurrency: 2 }
+      );
+      expect(started).toEqual([30, 10, 20, 5, 15]);
+      expect(indices).toEqual([0, 1, 2, 3, 4]);
+      expect(maxInFlight).toBe(2);
+
+      const sequential: number[] = [];
+      await list.forEachAsync(async (value) => {
+        await delay(0);
+        sequential.push(value);
+      });
+      expect(sequential).toEqual([30, 10, 20, 5, 15]);
+    });
+
+    it('should let forEachAsync callbacks remove their own node and skip items removed before they are reached', async () => {
+      const list = new DoubleLinkedList('a', 'b', 'c', 'd', 'e');
+      const visited: string[] = [];
+      await list.forEachAsync(
+        async (value) => {
+          visited.push(value);
+          await delay(value === 'a' ? 5 : 0);
+          list.remove(list.findNodeByValue(value)!);
+          if (value === 'b') {
+            list.remove(list.findNodeByValue('d')!);
+          }
+        },
+        { concurrency: 2 }
+      );
+      expect(visited).toEqual(['a', 'b', 'c', 'e']);
+      expect(list.isEmpty()).toBe(true);
+    });
+
+    it('should run items appended during forEachAsync at full concurrency', async () => {
+      const list = new DoubleLinkedList(0);
+      const visited: number[] = [];
+      let inFlight = 0;
+      let maxInFlight = 0;
+      await list.forEachAsync(
+        async (value) => {
+          visited.push(value);
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          list.remove(list.findNodeByValue(value)!);
+          if (value === 0) {
+            list.append(1);
+            list.append(2);
+            list.append(3);
+          }
+          await delay(value === 0 ? 5 : 0);
+          if (value === 3) {
+            list.append(4); // After every earlier item has been removed
+          }
+          inFlight -= 1;
+        },
+        { concurrency: 3 }
+      );
+      expect(visited).toEqual([0, 1, 2, 3, 4]);
+      expect(maxInFlight).toBe(3);
+      expect(list.isEmpty()).toBe(true);
+
+      // Every node around the last one handed out is gone by the time the new item arrives
+      const queue = new DoubleLinkedList('a', 'b');
+      const processed: string[] = [];
+      await queue.forEachAsync(
+        async (value) => {
+          processed.push(value);
+          await delay(value === 'a' ? 0 : 5);
+          queue.remove(queue.findNodeByValue(value)!);
+          if (value === 'b') {
+            queue.append('c');
+          }
+        },
+        { concurrency: 2 }
+      );
+      expect(processed).toEqual(['a', 'b', 'c']);
+      expect(queue.isEmpty()).toBe(true);
+    });
+
+    it('should stop starting callbacks after one rejects', async () => {
+      const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+      const started: number[] = [];
+      await expect(
+        list.forEachAsync(async (value) => {
+          started.push(value);
+          await delay(0);
+          if (value === 2) {
+            throw new Error('boom');
+          }
+        })
+      ).rejects.toThrow('boom');
+      expect(started).toEqual([1, 2]);
+    });
+
+    it('should reject invalid concurrency with a RangeError', async () => {
+      const list = new DoubleLinkedList(1, 2);
+      await expect(list.forEachAsync(async () => undefined, { concurrency: 0 })).rejects.toThrow(RangeError);
+      await expect(list.mapAsync((value) => value, { concurrency: 1.5 })).rejects.toThrow(RangeError);
+      await expect(list.mapAsync((value) => value, { concurrency: Infinity })).resolves.toBeInstanceOf(DoubleLinkedList);
+    });
+
+    it('should keep mapAsync results in list order when callbacks finish out of order', async () => {
+      const list = new DoubleLinkedList(30, 10, 20, 0);
+      const finished: number[] = [];
+      const result = await list.mapAsync(
+        async (ms, index) => {
+          await delay(ms);
+          finished.push(ms);
+          return `${index}:${ms}`;
+        },
+        { concurrency: Infinity }
+      );
+      expect(finished).toEqual([0, 10, 20, 30]);
+      expect(result.toArray()).toEqual(['0:30', '1:10', '2:20', '3:0']);
+      expect((await new DoubleLinkedList<number>().mapAsync((value) => value)).isEmpty()).toBe(true);
+    });
   });
 
   describe('forEach method', () => {
@@ -368,6 +2133,335 @@ describe('DoubleLinkedList', () => {
       expect(list.includes(2, 2)).toBe(true);
       expect(list.includes(1, 1)).toBe(false);
     });
+
+    it('should use SameValueZero equality like Array.prototype.includes', () => {
+      const list = new DoubleLinkedList<number>(1, NaN, -0);
+      expect(list.includes(NaN)).toBe(true);
+      expect(list.includes(0)).toBe(true);
+      expect(list.indexOf(NaN)).toBe(-1);
+      expect(list.lastIndexOf(NaN)).toBe(-1);
+      expect(list.indexOf(0)).toBe(2);
+    });
+  });
+
+  describe('custom equality', () => {
+    interface Setting {
+      key: string;
+      value: string;
+    }
+    const sameKey = (a: Setting, b: Setting) => a.key === b.key;
+
+    it('should accept an equals function per call', () => {
+      const list = new DoubleLinkedList<Setting>({ key: 'a', value: '1' }, { key: 'b', value: '2' }, { key: 'a', value: '3' });
+      const probe = { key: 'a', value: '' };
+      expect(list.indexOf(probe)).toBe(-1);
+      expect(list.includes(probe)).toBe(false);
+      expect(list.indexOf(probe, 0, sameKey)).toBe(0);
+      expect(list.indexOf(probe, 1, sameKey)).toBe(2);
+      expect(list.lastIndexOf(probe, undefined, sameKey)).toBe(2);
+      expect(list.lastIndexOf(probe, 1, sameKey)).toBe(0);
+      expect(list.includes(probe, 0, sameKey)).toBe(true);
+      expect(list.findNodeByValue(probe, sameKey)).toBe(list.getHead());
+      expect(list.findNodeByValue({ key: 'z', value: '' }, sameKey)).toBeUndefined();
+    });
+
+    it('should use the equals function set on the list', () => {
+      const list = new DoubleLinkedList<Setting>({ key: 'a', value: '1' }, { key: 'b', value: '2' });
+      expect(list.setEquals(sameKey)).toBe(list);
+
+      const probe = { key: 'b', value: '' };
+      expect(list.indexOf(probe)).toBe(1);
+      expect(list.lastIndexOf(probe)).toBe(1);
+      expect(list.includes(probe)).toBe(true);
+      expect(list.findNodeByValue(probe)).toBe(list.getTail());
+
+      // Per-call functions take precedence
+      expect(list.includes(probe, 0, () => false)).toBe(false);
+
+      list.setEquals(undefined);
+      expect(list.includes(probe)).toBe(false);
+    });
+
+    it('findNodeByValue should default to SameValueZero', () => {
+      const list = new DoubleLinkedList<number>(1, NaN, 2);
+      expect(list.findNodeByValue(NaN)).toBe(list.getNodeAt(1));
+      expect(list.findNodeByValue(3)).toBeUndefined();
+    });
+  });
+
+  describe('lastIndexOf method', () => {
+    it('should search backward from the tail', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c', 'b');
+      const array = ['a', 'b', 'c', 'b'];
+      expect(list.lastIndexOf('b')).toBe(3);
+      for (const fromIndex of [3, 2, 1, 0, -1, -2, -4, -5, 10]) {
+        expect(list.lastIndexOf('b', fromIndex)).toBe(array.lastIndexOf('b', fromIndex));
+      }
+      expect(list.lastIndexOf('z')).toBe(-1);
+      expect(new DoubleLinkedList<string>().lastIndexOf('a')).toBe(-1);
+    });
+  });
+
+  describe('at method', () => {
+    it('should support positive and negative indices', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      expect(list.at(0)).toBe(1);
+      expect(list.at(-1)).toBe(3);
+      expect(list.at(3)).toBeUndefined();
+    });
+  });
+
+  describe('filter method', () => {
+    it('should create a new list with the passing items', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3, 4);
+      const indices: number[] = [];
+      const evens = list.filter((value, index, owner) => {
+        expect(owner).toBe(list);
+        indices.push(index);
+        return value % 2 === 0;
+      });
+      expect(evens).toBeInstanceOf(DoubleLinkedList);
+      expect([...evens]).toEqual([2, 4]);
+      expect(indices).toEqual([0, 1, 2, 3]);
+      expect([...list]).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should narrow types with type guards', () => {
+      const list = new DoubleLinkedList<string | number>('a', 1, 'b');
+      const strings: DoubleLinkedList<string> = list.filter((value): value is string => typeof value === 'string');
+      expect([...strings]).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('flatMap method', () => {
+    it('should flatten returned arrays by one level', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const result = list.flatMap((value, index) => (index === 1 ? [] : [value, [value * 10]]));
+      expect([...result]).toEqual([1, [10], 3, [30]]);
+      expect([...list.flatMap((value) => value * 2)]).toEqual([2, 4, 6]);
+    });
+  });
+
+  describe('reduce and reduceRight methods', () => {
+    it('should reduce from either end', () => {
+      const list = new DoubleLinkedList<string>('a', 'b', 'c');
+      expect(list.reduce((text, value) => text + value)).toBe('abc');
+      expect(list.reduceRight((text, value) => text + value)).toBe('cba');
+      expect(list.reduce((count, value) => count + value.length, 0)).toBe(3);
+    });
+
+    it('should pass indices matching Array.prototype.reduce', () => {
+      const list = new DoubleLinkedList<number>(5, 6, 7);
+      const array = [5, 6, 7];
+      const collect = (calls: number[][]) => (accumulator: number, value: number, index: number) => {
+        calls.push([accumulator, value, index]);
+        return accumulator + value;
+      };
+
+      for (const method of ['reduce', 'reduceRight'] as const) {
+        const listCalls: number[][] = [];
+        const arrayCalls: number[][] = [];
+        expect(list[method](collect(listCalls))).toBe(array[method](collect(arrayCalls)));
+        expect(list[method](collect(listCalls), 100)).toBe(array[method](collect(arrayCalls), 100));
+        expect(listCalls).toEqual(arrayCalls);
+      }
+    });
+
+    it('should throw for an empty list without an initial value', () => {
+      const list = new DoubleLinkedList<number>();
+      expect(() => list.reduce((a, b) => a + b)).toThrow(TypeError);
+      expect(() => list.reduceRight((a, b) => a + b)).toThrow(TypeError);
+      expect(list.reduce((a, b) => a + b, 0)).toBe(0);
+      expect(list.reduceRight((a: number | undefined, b) => (a ?? 0) + b, undefined)).toBeUndefined();
+      expect(new DoubleLinkedList<number>(4).reduce((a, b) => a + b)).toBe(4);
+    });
+  });
+
+  describe('some and every methods', () => {
+    it('should test the items', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      expect(list.some((value) => value > 2)).toBe(true);
+      expect(list.some((value) => value > 3)).toBe(false);
+      expect(list.every((value) => value > 0)).toBe(true);
+      expect(list.every((value) => value > 1)).toBe(false);
+
+      const empty = new DoubleLinkedList<number>();
+      expect(empty.some(() => true)).toBe(false);
+      expect(empty.every(() => false)).toBe(true);
+    });
+
+    it('should stop at the first deciding item', () => {
+      const list = new DoubleLinkedList<number>(1, 2, 3);
+      const visited: number[] = [];
+      list.some((value) => {
+        visited.push(value);
+        return value === 2;
+      });
+      list.every((value, index, owner) => {
+        expect(owner).toBe(list);
+        visited.push(index);
+        return value < 1;
+      });
+      expect(visited).toEqual([1, 2, 0]);
+    });
+  });
+
+  describe('findIndex, findNode, findLast, findLastIndex and findLastNode methods', () => {
+    it('should search from the head', () => {
+      const list = new DoubleLinkedList<number>(1, 4, 2, 5);
+      expect(list.findIndex((value) => value > 3)).toBe(1);
+      expect(list.findIndex((value) => value > 5)).toBe(-1);
+      expect(list.findNode((value) => value > 3)).toBe(list.getNodeAt(1));
+      expect(list.findNode((value) => value > 5)).toBeUndefined();
+    });
+
+    it('should search from the tail', () => {
+      const list = new DoubleLinkedList<number>(1, 4, 2, 5);
+      const visited: Array<[number, number]> = [];
+      expect(
+        list.findLast((value, index) => {
+          visited.push([value, index]);
+          return value < 3;
+        })
+      ).toBe(2);
+      expect(visited).toEqual([
+        [5, 3],
+        [2, 2]
+      ]);
+
+      expect(list.findLastIndex((value) => value < 3)).toBe(2);
+      expect(list.findLastIndex((value) => value > 5)).toBe(-1);
+      expect(list.findLastNode((value) => value > 3)).toBe(list.getTail());
+      expect(list.findLastNode((value) => value > 5)).toBeUndefined();
+      expect(list.findLast((value) => value > 5)).toBeUndefined();
+    });
+
+    it('found nodes should be usable for O(1) edits', () => {
+      const list = new DoubleLinkedList<number>(1, 5, 10);
+      list.insertBeforeNode(list.findNode((value) => value > 3)!, 3);
+      list.remove(list.findLastNode((value) => value > 3)!);
+      expect([...list]).toEqual([1, 3, 5]);
+    });
+  });
+
+  describe('join method', () => {
+    it('should match Array.prototype.join', () => {
+      const items = ['a', 1, undefined, null, true];
+      const list = new DoubleLinkedList<unknown>(...items);
+      expect(list.join()).toBe(items.join());
+      expect(list.join(' - ')).toBe(items.join(' - '));
+      expect(list.join('')).toBe(items.join(''));
+      expect(new DoubleLinkedList<string>().join()).toBe('');
+      expect(new DoubleLinkedList<string>('x').join()).toBe('x');
+    });
+  });
+
+  describe('lazy method', () => {
+    it('should not do any work until the sequence is collected, and only read what it needs', () => {
+      const list = DoubleLinkedList.from({ length: 1000 }, (_, i) => i);
+      const seen: number[] = [];
+      const sequence = list
+        .lazy()
+        .map((x) => {
+          seen.push(x);
+          return x * 2;
+        })
+        .filter((x) => x % 3 === 0)
+        .take(3);
+      expect(seen).toEqual([]);
+
+      expect(sequence.toArray()).toEqual([0, 6, 12]);
+      expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6]);
+
+      // Each collection starts again from the list
+      expect(sequence.toArray()).toEqual([0, 6, 12]);
+    });
+
+    it('should support take, drop and takeWhile', () => {
+      const sequence = new DoubleLinkedList(1, 2, 3, 4, 5, 1).lazy();
+      expect(sequence.take(0).toArray()).toEqual([]);
+      expect(sequence.take(2).toArray()).toEqual([1, 2]);
+      expect(sequence.take(Infinity).toArray()).toEqual([1, 2, 3, 4, 5, 1]);
+      expect(sequence.drop(4).toArray()).toEqual([5, 1]);
+      expect(sequence.drop(Infinity).toArray()).toEqual([]);
+      expect(sequence.drop(1).take(2).toArray()).toEqual([2, 3]);
+      expect(sequence.takeWhile((x) => x < 4).toArray()).toEqual([1, 2, 3]);
+
+      expect(() => sequence.take(-1)).toThrow(RangeError);
+      expect(() => sequence.drop(1.5)).toThrow(RangeError);
+      expect(() => sequence.take(NaN)).toThrow(RangeError);
+    });
+
+    it('should pass indices to callbacks and narrow types with type guards', () => {
+      const list = new DoubleLinkedList<string | number>('a', 1, 'b', 2);
+      const strings = list.lazy().filter((x): x is string => typeof x === 'string');
+      const upper: string[] = strings.map((x, index) => `${index}${x.toUpperCase()}`).toArray();
+      expect(upper).toEqual(['0A', '1B']);
+    });
+
+    it('should support flatMap, zip and chunk', () => {
+      const words = new DoubleLinkedList('ab', 'c', '');
+      expect(
+        words
+          .lazy()
+          .flatMap((word) => word.split(''))
+          .toArray()
+      ).toEqual(['a', 'b', 'c']);
+      expect(
+        words
+          .lazy()
+          .flatMap((word) => word.length)
+          .toArray()
+      ).toEqual([2, 1, 0]);
+
+      const numbers = new DoubleLinkedList(1, 2, 3);
+      expect(words.lazy().zip(numbers).toArray()).toEqual([
+        ['ab', 1],
+        ['c', 2],
+        ['', 3]
+      ]);
+      expect(numbers.lazy().zip(['x']).toArray()).toEqual([[1, 'x']]);
+      expect(numbers.lazy().zip(numbers.lazy().drop(1)).toArray()).toEqual([
+        [1, 2],
+        [2, 3]
+      ]);
+
+      expect(DoubleLinkedList.from([1, 2, 3, 4, 5]).lazy().chunk(2).toArray()).toEqual([[1, 2], [3, 4], [5]]);
+      expect(numbers.lazy().chunk(3).toArray()).toEqual([[1, 2, 3]]);
+      expect(new DoubleLinkedList<number>().lazy().chunk(2).toArray()).toEqual([]);
+      expect(() => numbers.lazy().chunk(0)).toThrow(RangeError);
+    });
+
+    it('should collect with toList, reduce and for...of', () => {
+      const list = new DoubleLinkedList(1, 2, 3, 4);
+      const evens = list
+        .lazy()
+        .filter((x) => x % 2 === 0)
+        .toList();
+      expect(evens).toBeInstanceOf(DoubleLinkedList);
+      expect(evens.toArray()).toEqual([2, 4]);
+
+      expect(list.lazy().reduce((sum, x) => sum + x)).toBe(10);
+      expect(list.lazy().reduce((text, x, index) => `${text}${index}:${x} `, '')).toBe('0:1 1:2 2:3 3:4 ');
+      expect(() =>
+        list
+          .lazy()
+          .take(0)
+          .reduce((sum, x) => sum + x)
+      ).toThrow(TypeError);
+      expect(
+        list
+          .lazy()
+          .take(0)
+          .reduce((sum, x) => sum + x, 0)
+      ).toBe(0);
+
+      const values: number[] = [];
+      for (const value of list.lazy().map((x) => x * 10)) {
+        values.push(value);
+      }
+      expect(values).toEqual([10, 20, 30, 40]);
+    });
   });
 
   describe('Index-based access', () => {
@@ -473,6 +2567,46 @@ describe('DoubleLinkedList', () => {
         }
       });
     });
+
+    describe('set method', () => {
+      it('should replace items in place and return the previous item', () => {
+        const list = new DoubleLinkedList<string>('a', 'b', 'c');
+        const node1 = list.getNodeAt(1);
+
+        expect(list.set(1, 'B')).toBe('b');
+        expect(list.set(-1, 'C')).toBe('c');
+        expect([...list]).toEqual(['a', 'B', 'C']);
+        expect(list.getNodeAt(1)).toBe(node1);
+        expect(getNodeValue(node1)).toBe('B');
+      });
+
+      it('should do nothing for out of bounds indices', () => {
+        const list = new DoubleLinkedList<number>(1, 2);
+        expect(list.set(2, 3)).toBeUndefined();
+        expect(list.set(-3, 3)).toBeUndefined();
+        expect([...list]).toEqual([1, 2]);
+      });
+    });
+
+    describe('setNodeValue helper', () => {
+      it('should update a node held elsewhere', () => {
+        const orders = new DoubleLinkedList<{ id: string; quantity: number }>();
+        const order = orders.append({ id: 'a', quantity: 10 });
+        orders.append({ id: 'b', quantity: 5 });
+
+        expect(setNodeValue(order, { id: 'a', quantity: 7 })).toEqual({ id: 'a', quantity: 10 });
+        expect(orders.get(0)).toEqual({ id: 'a', quantity: 7 });
+        expect(orders.getHead()).toBe(order);
+      });
+
+      it('should do nothing for removed nodes', () => {
+        const list = new DoubleLinkedList<number>(1, 2);
+        const head = list.getHead()!;
+        list.remove(head);
+        expect(setNodeValue(head, 10)).toBeUndefined();
+        expect(getNodeValue(head)).toBe(1);
+      });
+    });
   });
 
   describe('Stack/Queue methods', () => {
@@ -1113,9 +3247,7 @@ describe('DoubleLinkedList', () => {
             const node = this.map.get(key);
             if (node !== undefined) {
               // Move to front (most recently used) - O(1) operation!
-              this.list.remove(node);
-              const newNode = this.list.prepend(getNodeValue(node));
-              this.map.set(key, newNode);
+              this.list.moveToFront(node);
               return getNodeValue(node).value;
             }
             return undefined;
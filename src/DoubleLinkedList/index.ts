@@ -1,3 +1,78 @@
+import { ConcurrentModificationError } from './ConcurrentModificationError.js';
+import { DoubleLinkedListRange } from './DoubleLinkedListRange.js';
+import { LazySequence } from './LazySequence.js';
+import { ListCursor } from './ListCursor.js';
+import { LIST, NEXT, PREV, VALUE } from './node-fields.js';
+import { PositionIndex } from './PositionIndex.js';
+
+export { ConcurrentModificationError } from './ConcurrentModificationError.js';
+export type { DoubleLinkedListRange } from './DoubleLinkedListRange.js';
+export type { LazySequence } from './LazySequence.js';
+export type { ListCursor } from './ListCursor.js';
+
+/**
+ * Options for {@link DoubleLinkedList.forEachAsync} and {@link DoubleLinkedList.mapAsync}.
+ */
+export interface DoubleLinkedListAsyncOptions {
+  /** The maximum number of callbacks in flight at once.  Must be a positive integer or `Infinity`.  Defaults to 1. */
+  concurrency?: number;
+}
+
+/**
+ * The names of the operations that {@link DoubleLinkedListObserver.onBatch} reports, one for each method whose changes are
+ * delivered as a batch.  `'removeAll'` is `DoubleLinkedListRange.removeAll`.
+ */
+export type DoubleLinkedListBatchOperation =
+  | 'adoptRange'
+  | 'appendList'
+  | 'prependList'
+  | 'insertListAfterNode'
+  | 'splitAt'
+  | 'sort'
+  | 'reverse'
+  | 'rotate'
+  | 'splice'
+  | 'removeWhere'
+  | 'retainWhere'
+  | 'dedupe'
+  | 'removeAll';
+
+/**
+ * Callbacks notified of the structural changes of a list, registered with {@link DoubleLinkedList.observe}.  Every callback
+ * is optional and runs synchronously once the change it reports has been made.  Replacing a node's value isn't a structural
+ * change and isn't reported.
+ *
+ * @typeParam ItemT - The type of items stored in the observed list
+ */
+export interface DoubleLinkedListObserver<ItemT> {
+  /**
+   * Called after a node is added to the list, including nodes moved in from another list.
+   *
+   * @param node - The added node
+   * @param index - The node's position, or `undefined` if it isn't known without walking the list.  The node's neighbors
+   * are always up to date.
+   */
+  onInsert?(node: DoubleLinkedListNode<ItemT>, index: number | undefined): void;
+  /**
+   * Called after a node is removed from the list, including nodes moved out to another list.
+   *
+   * @param value - The removed node's value
+   * @param node - The removed node, which may now belong to another list
+   */
+  onRemove?(value: ItemT, node: DoubleLinkedListNode<ItemT>): void;
+  /** Called after a node is moved to a new position within the list.  The node's neighbors are up to date. */
+  onMove?(node: DoubleLinkedListNode<ItemT>): void;
+  /** Called after every node is removed from the list at once, instead of `onRemove` for each node */
+  onClear?(): void;
+  /**
+   * Called before and after the changes made by an operation that reports several of them, so they can be applied together.
+   *
+   * @param phase - `'start'` before the first change, `'end'` after the last one
+   * @param operation - The name of the method making the changes
+   */
+  onBatch?(phase: 'start' | 'end', operation: DoubleLinkedListBatchOperation): void;
+}
+
 /**
  * A high-performance, type-safe doubly linked list implementation for TypeScript.
  *
@@ -39,9 +114,20 @@ export class DoubleLinkedList<ItemT> {
   private firstNode: DoubleLinkedListNode<ItemT> | undefined;
   private lastNode: DoubleLinkedListNode<ItemT> | undefined;
   private length = 0;
+  private index: PositionIndex<ItemT> | undefined;
+  /** Incremented by every structural change, so strict traversals can detect concurrent modification */
+  private modCount = 0;
+  private isStrict = false;
+  private readonly traversals: Array<Traversal<ItemT>> = [];
+  /** Typed with `unknown` parameters so that the list stays covariant in ItemT, like arrays */
+  private equals: ((a: unknown, b: unknown) => boolean) | undefined;
+  /** `undefined` rather than empty when nobody is observing, so that unobserved lists skip notifications with one check */
+  private observers: Array<DoubleLinkedListObserver<ItemT>> | undefined;
 
   /**
    * Creates a new DoubleLinkedList with optional initial items.
+   * Spreading a large array into the constructor can exceed the engine's argument limit, so use `DoubleLinkedList.from()`
+   * for large or streamed inputs.
    *
    * @param items - Initial items to add to the list (added in order)
    *
@@ -60,6 +146,141 @@ export class DoubleLinkedList<ItemT> {
     }
   }
 
+  /**
+   * Creates a new DoubleLinkedList from an iterable or array-like object.
+   * Similar to Array.from().  Items are streamed in one at a time, so unlike spreading into the constructor, there's no
+   * limit on the number of items.
+   *
+   * @typeParam T - The type of items in the source
+   * @typeParam U - The type of items in the returned list
+   * @param source - An iterable, such as an array, Set or generator, or an array-like object
+   * @param mapFn - Optional function producing each item of the new list. Receives (value, index) as parameters.
+   * @returns A new DoubleLinkedList with the source's items, in order
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = DoubleLinkedList.from(new Set([1, 2, 3]));
+   * console.log([...list]); // [1, 2, 3]
+   *
+   * const squares = DoubleLinkedList.from({ length: 3 }, (_, index) => index * index);
+   * console.log([...squares]); // [0, 1, 4]
+   * ```
+   *
+   * @example Loading from a generator
+   * ```typescript
+   * function* readRows() {
+   *   for (let i = 0; i < 5_000_000; i += 1) {
+   *     yield { id: i };
+   *   }
+   * }
+   * const rows = DoubleLinkedList.from(readRows());
+   * ```
+   */
+  public static from<T>(source: Iterable<T> | ArrayLike<T>): DoubleLinkedList<T>;
+  public static from<T, U>(source: Iterable<T> | ArrayLike<T>, mapFn: (value: T, index: number) => U): DoubleLinkedList<U>;
+  public static from<T, U>(source: Iterable<T> | ArrayLike<T>, mapFn?: (value: T, index: number) => U): DoubleLinkedList<T | U> {
+    const list = new DoubleLinkedList<T | U>();
+
+    let index = 0;
+    const add = (value: T) => {
+      list.append(mapFn !== undefined ? mapFn(value, index) : value);
+      index += 1;
+    };
+
+    if (isIterable(source)) {
+      for (const value of source) {
+        add(value);
+      }
+    } else {
+      const length = source.length;
+      for (let i = 0; i < length; i += 1) {
+        add(source[i]);
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Creates a new DoubleLinkedList from an async iterable, or an iterable or array-like object of promises, awaiting each
+   * item in turn.
+   * Similar to Array.fromAsync().
+   *
+   * @typeParam T - The type of items in the source
+   * @typeParam U - The type of items in the returned list
+   * @param source - An async iterable, such as an async generator or a readable stream, or an iterable or array-like object
+   * whose items may be promises
+   * @param mapFn - Optional function producing each item of the new list, which may return a promise. Receives (value, index)
+   * as parameters.
+   * @returns A promise resolving to a new DoubleLinkedList with the source's items, in order
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * async function* fetchPages() {
+   *   yield 'page 1';
+   *   yield 'page 2';
+   * }
+   * const pages = await DoubleLinkedList.fromAsync(fetchPages());
+   * console.log([...pages]); // ['page 1', 'page 2']
+   * ```
+   */
+  public static fromAsync<T>(
+    source: AsyncIterable<T> | Iterable<T | PromiseLike<T>> | ArrayLike<T | PromiseLike<T>>
+  ): Promise<DoubleLinkedList<T>>;
+  public static fromAsync<T, U>(
+    source: AsyncIterable<T> | Iterable<T | PromiseLike<T>> | ArrayLike<T | PromiseLike<T>>,
+    mapFn: (value: T, index: number) => U | PromiseLike<U>
+  ): Promise<DoubleLinkedList<U>>;
+  public static async fromAsync<T, U>(
+    source: AsyncIterable<T> | Iterable<T | PromiseLike<T>> | ArrayLike<T | PromiseLike<T>>,
+    mapFn?: (value: T, index: number) => U | PromiseLike<U>
+  ): Promise<DoubleLinkedList<T | U>> {
+    const list = new DoubleLinkedList<T | U>();
+
+    let index = 0;
+    const add = async (value: T) => {
+      list.append(mapFn !== undefined ? await mapFn(value, index) : value);
+      index += 1;
+    };
+
+    if (isAsyncIterable(source)) {
+      for await (const value of source) {
+        await add(value);
+      }
+    } else if (isIterable(source)) {
+      for (const value of source) {
+        await add(await value);
+      }
+    } else {
+      const length = source.length;
+      for (let i = 0; i < length; i += 1) {
+        await add(await source[i]);
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Creates a new DoubleLinkedList containing the given items.
+   * Similar to Array.of().
+   *
+   * @param items - The items of the new list
+   * @returns A new DoubleLinkedList with the given items, in order
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = DoubleLinkedList.of('a', 'b');
+   * console.log([...list]); // ['a', 'b']
+   * ```
+   */
+  public static of<T>(...items: T[]): DoubleLinkedList<T> {
+    return DoubleLinkedList.from(items);
+  }
+
   /**
    * Gets the number of items in the list.
    *
@@ -120,6 +341,13 @@ export class DoubleLinkedList<ItemT> {
     this.lastNode = newNode;
 
     this.length += 1;
+    this.modCount += 1;
+
+    this.index?.insertAfter(newNode[PREV], newNode);
+
+    if (this.observers !== undefined) {
+      this.notify('onInsert', newNode, this.length - 1);
+    }
 
     return newNode;
   }
@@ -150,13 +378,20 @@ export class DoubleLinkedList<ItemT> {
     this.firstNode = newNode;
 
     this.length += 1;
+    this.modCount += 1;
+
+    this.index?.insertAfter(undefined, newNode);
+
+    if (this.observers !== undefined) {
+      this.notify('onInsert', newNode, 0);
+    }
 
     return newNode;
   }
 
   /**
    * Removes all items from the list, making it empty.
-   * Properly cleans up all node references to prevent memory leaks.
+   * Properly cleans up all node references to prevent memory leaks.  Observers are notified with a single `onClear`.
    *
    * @remarks Time complexity: O(n) where n is the number of items
    *
@@ -168,9 +403,24 @@ export class DoubleLinkedList<ItemT> {
    * ```
    */
   public clear(): void {
+    if (this.firstNode === undefined) {
+      return; // Nothing to do -- already empty
+    }
+
+    // Observers get one onClear rather than an onRemove for each node
+    const observers = this.observers;
+    this.observers = undefined;
+
+    this.index?.invalidate();
+
     while (this.firstNode !== undefined) {
       this.remove(this.firstNode);
     }
+
+    this.observers = observers;
+    if (observers !== undefined) {
+      this.notify('onClear');
+    }
   }
 
   /**
@@ -287,12 +537,23 @@ export class DoubleLinkedList<ItemT> {
       next![PREV] = prev;
     }
 
+    if (this.traversals.length > 0) {
+      this.displaceTraversals(node, node);
+    }
+
+    this.index?.remove(node);
+
     // Clear node references
     node[PREV] = undefined;
     node[NEXT] = undefined;
     node[LIST] = undefined;
 
     this.length -= 1;
+    this.modCount += 1;
+
+    if (this.observers !== undefined) {
+      this.notify('onRemove', node[VALUE], node);
+    }
 
     return true;
   }
@@ -330,6 +591,13 @@ export class DoubleLinkedList<ItemT> {
     node[NEXT] = newNode;
 
     this.length += 1;
+    this.modCount += 1;
+
+    this.index?.insertAfter(node, newNode);
+
+    if (this.observers !== undefined) {
+      this.notify('onInsert', newNode, undefined);
+    }
 
     return newNode;
   }
@@ -367,191 +635,1552 @@ export class DoubleLinkedList<ItemT> {
     node[PREV] = newNode;
 
     this.length += 1;
+    this.modCount += 1;
+
+    this.index?.insertAfter(newNode[PREV], newNode);
+
+    if (this.observers !== undefined) {
+      this.notify('onInsert', newNode, undefined);
+    }
 
     return newNode;
   }
 
   /**
-   * Makes the list iterable, enabling use with for...of loops, spread operator, Array.from(), etc.
+   * Moves an existing node to the beginning of the list.
+   * The node keeps its identity, so any references held elsewhere remain valid.
    *
-   * @returns An iterator that yields each item in the list from head to tail
-   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   * @param node - The node to move
+   * @returns `true` if the node was moved (or was already first), `false` if it doesn't belong to this list
+   * @remarks Time complexity: O(1)
    *
-   * @example Iterator usage
+   * @example
    * ```typescript
-   * const list = new DoubleLinkedList('a', 'b', 'c');
-   *
-   * // for...of loop
-   * for (const item of list) {
-   *   console.log(item); // 'a', 'b', 'c'
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * const tail = list.getTail();
+   * if (tail) {
+   *   list.moveToFront(tail);
+   *   console.log([...list]); // [3, 1, 2]
    * }
-   *
-   * // Spread operator
-   * const array = [...list]; // ['a', 'b', 'c']
-   *
-   * // Array.from()
-   * const array2 = Array.from(list); // ['a', 'b', 'c']
    * ```
    */
-  public [Symbol.iterator](): Iterator<ItemT> {
-    let current = this.firstNode;
+  public moveToFront(node: DoubleLinkedListNode<ItemT>): boolean {
+    if (node[LIST] !== this) {
+      return false; // Nothing to do -- wrong list
+    }
 
-    return {
-      next(): IteratorResult<ItemT> {
-        if (current === undefined) {
-          return { done: true, value: undefined };
-        }
+    if (node !== this.firstNode) {
+      this.unlinkRange(node, node);
+      this.linkRangeAfter(node, node, undefined);
 
-        const value = current[VALUE];
-        current = current[NEXT];
-        return { done: false, value };
+      if (this.observers !== undefined) {
+        this.notify('onMove', node);
       }
-    };
+    }
+
+    return true;
   }
 
   /**
-   * Executes a provided function once for each item in the list.
-   * Similar to Array.prototype.forEach().
+   * Moves an existing node to the end of the list.
+   * The node keeps its identity, so any references held elsewhere remain valid.
    *
-   * @param callback - Function to execute for each item. Receives (value, index, list) as parameters.
-   * @remarks Time complexity: O(n)
+   * @param node - The node to move
+   * @returns `true` if the node was moved (or was already last), `false` if it doesn't belong to this list
+   * @remarks Time complexity: O(1)
    *
    * @example
    * ```typescript
-   * const list = new DoubleLinkedList('a', 'b', 'c');
-   * list.forEach((value, index) => {
-   *   console.log(`${index}: ${value}`); // "0: a", "1: b", "2: c"
-   * });
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * const head = list.getHead();
+   * if (head) {
+   *   list.moveToBack(head);
+   *   console.log([...list]); // [2, 3, 1]
+   * }
    * ```
    */
-  public forEach(callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => void): void {
-    let index = 0;
-    let cursor = this.firstNode;
-    while (cursor !== undefined) {
-      callback(cursor[VALUE], index, this);
-      cursor = cursor[NEXT];
-      index += 1;
+  public moveToBack(node: DoubleLinkedListNode<ItemT>): boolean {
+    if (node[LIST] !== this) {
+      return false; // Nothing to do -- wrong list
+    }
+
+    if (node !== this.lastNode) {
+      this.unlinkRange(node, node);
+      this.linkRangeAfter(node, node, this.lastNode);
+
+      if (this.observers !== undefined) {
+        this.notify('onMove', node);
+      }
     }
+
+    return true;
   }
 
   /**
-   * Creates a new DoubleLinkedList with the results of calling a provided function on every item.
-   * Similar to Array.prototype.map().
+   * Moves an existing node so that it immediately precedes another node of the same list.
+   * The node keeps its identity, so any references held elsewhere remain valid.
    *
-   * @typeParam U - The type of items in the returned list
-   * @param callback - Function that produces an item of the new list. Receives (value, index, list) as parameters.
-   * @returns A new DoubleLinkedList with the transformed items
-   * @remarks Time complexity: O(n)
+   * @param node - The node to move
+   * @param target - The node before which `node` should be placed
+   * @returns `true` if the node was moved (or was already in place), `false` if either node doesn't belong to this list or
+   * both are the same node
+   * @remarks Time complexity: O(1)
    *
    * @example
    * ```typescript
-   * const numbers = new DoubleLinkedList(1, 2, 3);
-   * const doubled = numbers.map(x => x * 2);
-   * console.log([...doubled]); // [2, 4, 6]
-   *
-   * const strings = numbers.map(x => x.toString());
-   * console.log([...strings]); // ['1', '2', '3']
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const head = list.getHead();
+   * const tail = list.getTail();
+   * if (head && tail) {
+   *   list.moveBefore(tail, head);
+   *   console.log([...list]); // ['c', 'a', 'b']
+   * }
    * ```
    */
-  public map<U>(callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U): DoubleLinkedList<U> {
-    const result = new DoubleLinkedList<U>();
-    let index = 0;
-    let cursor = this.firstNode;
-    while (cursor !== undefined) {
-      result.append(callback(cursor[VALUE], index, this));
-      cursor = cursor[NEXT];
-      index += 1;
+  public moveBefore(node: DoubleLinkedListNode<ItemT>, target: DoubleLinkedListNode<ItemT>): boolean {
+    if (node[LIST] !== this || target[LIST] !== this || node === target) {
+      return false; // Nothing to do -- wrong list or same node
     }
-    return result;
+
+    if (target[PREV] !== node) {
+      this.unlinkRange(node, node);
+      this.linkRangeAfter(node, node, target[PREV]);
+
+      if (this.observers !== undefined) {
+        this.notify('onMove', node);
+      }
+    }
+
+    return true;
   }
 
   /**
-   * Returns the first item in the list that satisfies the provided testing function.
-   * Similar to Array.prototype.find().
+   * Moves an existing node so that it immediately follows another node of the same list.
+   * The node keeps its identity, so any references held elsewhere remain valid.
    *
-   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
-   * @returns The first item that matches the predicate, or `undefined` if no match is found
-   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   * @param node - The node to move
+   * @param target - The node after which `node` should be placed
+   * @returns `true` if the node was moved (or was already in place), `false` if either node doesn't belong to this list or
+   * both are the same node
+   * @remarks Time complexity: O(1)
    *
    * @example
    * ```typescript
-   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
-   * const found = list.find(x => x > 3);
-   * console.log(found); // 4
-   *
-   * const notFound = list.find(x => x > 10);
-   * console.log(notFound); // undefined
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const head = list.getHead();
+   * const tail = list.getTail();
+   * if (head && tail) {
+   *   list.moveAfter(head, tail);
+   *   console.log([...list]); // ['b', 'c', 'a']
+   * }
    * ```
    */
-  public find(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): ItemT | undefined {
-    let index = 0;
-    let cursor = this.firstNode;
-    while (cursor !== undefined) {
-      if (predicate(cursor[VALUE], index, this)) {
-        return cursor[VALUE];
+  public moveAfter(node: DoubleLinkedListNode<ItemT>, target: DoubleLinkedListNode<ItemT>): boolean {
+    if (node[LIST] !== this || target[LIST] !== this || node === target) {
+      return false; // Nothing to do -- wrong list or same node
+    }
+
+    if (target[NEXT] !== node) {
+      this.unlinkRange(node, node);
+      this.linkRangeAfter(node, node, target);
+
+      if (this.observers !== undefined) {
+        this.notify('onMove', node);
       }
-      cursor = cursor[NEXT];
-      index += 1;
     }
-    return undefined;
+
+    return true;
   }
 
   /**
-   * Returns the first index at which a given item can be found in the list.
-   * Similar to Array.prototype.indexOf().
+   * Moves an existing node, possibly owned by another list, into this list.
+   * The node is detached from whichever list currently owns it, so its identity is preserved and both lists' lengths are
+   * updated.  Nodes that were previously removed from a list may be adopted as well.
    *
-   * @param searchElement - The item to search for
-   * @param fromIndex - The index to start the search from (default: 0)
-   * @returns The index of the first occurrence of the item, or -1 if not found
-   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   * @param node - The node to move into this list
+   * @param before - The node of this list before which `node` should be placed.  If `undefined`, `node` is placed at the end.
+   * @returns `true` if the node was moved, `false` if `before` doesn't belong to this list or is `node` itself
+   * @remarks Time complexity: O(1)
    *
-   * @example
+   * @example Moving work items between lists
    * ```typescript
-   * const list = new DoubleLinkedList('a', 'b', 'c', 'b');
-   * console.log(list.indexOf('b'));    // 1 (first occurrence)
-   * console.log(list.indexOf('b', 2)); // 3 (starting from index 2)
-   * console.log(list.indexOf('z'));    // -1 (not found)
+   * const pending = new DoubleLinkedList('task1', 'task2');
+   * const running = new DoubleLinkedList<string>();
+   * const task = pending.getHead();
+   * if (task) {
+   *   running.adoptNode(task);
+   *   console.log([...pending]); // ['task2']
+   *   console.log([...running]); // ['task1']
+   *   console.log(getNodeList(task) === running); // true
+   * }
    * ```
    */
-  public indexOf(searchElement: ItemT, fromIndex: number = 0): number {
-    let index = 0;
-    let cursor = this.firstNode;
+  public adoptNode(node: DoubleLinkedListNode<ItemT>, before?: DoubleLinkedListNode<ItemT>): boolean {
+    if (before !== undefined && (before[LIST] !== this || before === node)) {
+      return false; // Nothing to do -- wrong list or same node
+    }
 
-    // Skip to fromIndex
-    while (cursor !== undefined && index < fromIndex) {
-      cursor = cursor[NEXT];
-      index += 1;
+    const source = node[LIST];
+    if (source !== undefined) {
+      source.unlinkRange(node, node);
+      source.length -= 1;
     }
 
-    while (cursor !== undefined) {
-      if (cursor[VALUE] === searchElement) {
-        return index;
+    node[LIST] = this;
+    this.linkRangeAfter(node, node, before !== undefined ? before[PREV] : this.lastNode);
+    this.length += 1;
+
+    if (source === this) {
+      if (this.observers !== undefined) {
+        this.notify('onMove', node);
+      }
+    } else {
+      if (source?.observers !== undefined) {
+        source.notify('onRemove', node[VALUE], node);
+      }
+      if (this.observers !== undefined) {
+        this.notify('onInsert', node, before === undefined ? this.length - 1 : undefined);
       }
-      cursor = cursor[NEXT];
-      index += 1;
     }
-    return -1;
+
+    return true;
   }
 
   /**
-   * Determines whether the list includes a certain item.
-   * Similar to Array.prototype.includes().
+   * Moves a contiguous run of existing nodes, possibly owned by another list, into this list.
+   * The run is detached from the list that currently owns it in a single step and keeps its order and node identities.
    *
-   * @param searchElement - The item to search for
-   * @param fromIndex - The index to start the search from (default: 0)
-   * @returns `true` if the item is found, `false` otherwise
+   * @param first - The first node of the run
+   * @param last - The last node of the run, which must be `first` or come after it in the same list
+   * @param before - The node of this list before which the run should be placed.  If `undefined`, the run is placed at the
+   * end.
+   * @returns `true` if the run was moved, `false` if the nodes don't form a valid run or `before` doesn't belong to this list
+   * or lies within the run
+   * @remarks Time complexity: O(k) where k is the number of nodes in the run
+   *
+   * @example
+   * ```typescript
+   * const source = new DoubleLinkedList(1, 2, 3, 4);
+   * const target = new DoubleLinkedList(10, 20);
+   * const first = getNextNode(source.getHead());
+   * const last = getPreviousNode(source.getTail());
+   * if (first && last) {
+   *   target.adoptRange(first, last, target.getTail());
+   *   console.log([...source]); // [1, 4]
+   *   console.log([...target]); // [10, 2, 3, 20]
+   * }
+   * ```
+   */
+  public adoptRange(first: DoubleLinkedListNode<ItemT>, last: DoubleLinkedListNode<ItemT>, before?: DoubleLinkedListNode<ItemT>): boolean {
+    const source = first[LIST];
+    if (source === undefined || last[LIST] !== source) {
+      return false; // Nothing to do -- not a run of the same list
+    }
+
+    if (before !== undefined && before[LIST] !== this) {
+      return false; // Nothing to do -- wrong list
+    }
+
+    // Validate that last follows first and that before isn't part of the run, counting the nodes as we go
+    let count = 1;
+    let cursor = first;
+    while (cursor !== last) {
+      if (cursor === before) {
+        return false;
+      }
+
+      const next = cursor[NEXT];
+      if (next === undefined) {
+        return false; // last doesn't follow first
+      }
+
+      cursor = next;
+      count += 1;
+    }
+
+    if (last === before) {
+      return false;
+    }
+
+    source.unlinkRange(first, last);
+    source.length -= count;
+
+    if (source !== this) {
+      this.claimRange(first);
+    }
+
+    this.linkRangeAfter(first, last, before !== undefined ? before[PREV] : this.lastNode);
+    this.length += count;
+
+    if (source === this) {
+      if (this.observers !== undefined) {
+        this.notifyRun('adoptRange', 'onMove', first, last, undefined);
+      }
+    } else {
+      if (source.observers !== undefined) {
+        source.notifyRun('adoptRange', 'onRemove', first, last, undefined);
+      }
+      if (this.observers !== undefined) {
+        this.notifyRun('adoptRange', 'onInsert', first, last, before === undefined ? this.length - count : undefined);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Moves all nodes of another list to the end of this list, leaving the other list empty.
+   * The nodes are relinked rather than copied, so their identities are preserved.
+   *
+   * @param other - The list whose nodes should be moved.  Passing this list itself does nothing.
+   * @remarks Time complexity: O(1) to relink, plus O(m) to update the list references of the m moved nodes
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2);
+   * const other = new DoubleLinkedList(3, 4);
+   * list.appendList(other);
+   * console.log([...list]);      // [1, 2, 3, 4]
+   * console.log(other.isEmpty()); // true
+   * ```
+   */
+  public appendList(other: DoubleLinkedList<ItemT>): void {
+    this.takeAllAfter(other, this.lastNode, 'appendList');
+  }
+
+  /**
+   * Moves all nodes of another list to the beginning of this list, leaving the other list empty.
+   * The nodes are relinked rather than copied, so their identities are preserved.
+   *
+   * @param other - The list whose nodes should be moved.  Passing this list itself does nothing.
+   * @remarks Time complexity: O(1) to relink, plus O(m) to update the list references of the m moved nodes
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(3, 4);
+   * const other = new DoubleLinkedList(1, 2);
+   * list.prependList(other);
+   * console.log([...list]);      // [1, 2, 3, 4]
+   * console.log(other.isEmpty()); // true
+   * ```
+   */
+  public prependList(other: DoubleLinkedList<ItemT>): void {
+    this.takeAllAfter(other, undefined, 'prependList');
+  }
+
+  /**
+   * Moves all nodes of another list into this list immediately after the specified node, leaving the other list empty.
+   * The nodes are relinked rather than copied, so their identities are preserved.
+   *
+   * @param node - The node after which to insert the other list's nodes
+   * @param other - The list whose nodes should be moved.  Passing this list itself does nothing.
+   * @returns `true` if the nodes were moved, `false` if the reference node doesn't belong to this list or `other` is this list
+   * @remarks Time complexity: O(1) to relink, plus O(m) to update the list references of the m moved nodes
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 4);
+   * const other = new DoubleLinkedList(2, 3);
+   * const head = list.getHead();
+   * if (head) {
+   *   list.insertListAfterNode(head, other);
+   *   console.log([...list]); // [1, 2, 3, 4]
+   * }
+   * ```
+   */
+  public insertListAfterNode(node: DoubleLinkedListNode<ItemT>, other: DoubleLinkedList<ItemT>): boolean {
+    if (node[LIST] !== this || other === this) {
+      return false; // Nothing to do -- wrong list
+    }
+
+    this.takeAllAfter(other, node, 'insertListAfterNode');
+    return true;
+  }
+
+  /**
+   * Splits the list in two at the specified position.
+   * The node at that position and every node after it are moved, in order, into a new list, and this list is truncated to
+   * the nodes before it.  The nodes are relinked rather than copied, so their identities are preserved.
+   *
+   * @param at - Where to split the list.
+   *             - number: Zero-based index of the first node to move (supports negative indices)
+   *             - DoubleLinkedListNode: The first node to move
+   * @returns A new DoubleLinkedList holding the moved nodes, which is empty if `at` is out of bounds or the node doesn't
+   * belong to this list
+   * @remarks Time complexity: O(k) where k is the number of moved nodes, plus O(n) to find the node for index-based splits
+   *
+   * @example Split by index
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+   * const rest = list.splitAt(2);
+   * console.log([...list]); // [1, 2]
+   * console.log([...rest]); // [3, 4, 5]
+   * ```
+   *
+   * @example Split by node reference
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const tail = list.getTail();
+   * if (tail) {
+   *   const rest = list.splitAt(tail);
+   *   console.log(getNodeList(tail) === rest); // true
+   * }
+   * ```
+   */
+  public splitAt(at: number | DoubleLinkedListNode<ItemT>): DoubleLinkedList<ItemT> {
+    const result = new DoubleLinkedList<ItemT>();
+
+    const first = typeof at === 'number' ? this.getNodeAt(at) : at;
+    const last = this.lastNode;
+    if (first === undefined || last === undefined || first[LIST] !== this) {
+      return result; // Nothing to do -- out of bounds or wrong list
+    }
+
+    this.unlinkRange(first, last);
+    const count = result.claimRange(first);
+    result.linkRangeAfter(first, last, undefined);
+    result.length = count;
+    this.length -= count;
+
+    if (this.observers !== undefined) {
+      this.notifyRun('splitAt', 'onRemove', first, last, undefined);
+    }
+
+    return result;
+  }
+
+  /**
+   * Sorts the list in place by relinking its existing nodes.
+   * Similar to Array.prototype.sort(), the sort is stable, but unlike sorting a copied array, every node reference held
+   * elsewhere stays valid and keeps pointing at the same value.
+   *
+   * @param compare - Function defining the sort order.  Should return a negative number if `a` comes before `b`, a positive
+   * number if `a` comes after `b`, or zero if they're equivalent.  If omitted, items are sorted like Array.prototype.sort()
+   * does by default: by their string representations, with `undefined` items placed last.
+   * @returns This list, for chaining
+   * @remarks Time complexity: O(n log n), using O(1) extra space (bottom-up merge sort)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(3, 1, 2);
+   * const node = list.getHead(); // 3
+   * list.sort((a, b) => a - b);
+   * console.log([...list]);          // [1, 2, 3]
+   * console.log(getNodeValue(node)); // 3 - node references remain valid
+   * ```
+   */
+  public sort(compare: (a: ItemT, b: ItemT) => number = defaultCompare): this {
+    if (this.length < 2) {
+      return this;
+    }
+
+    let head = this.firstNode;
+    let tail: DoubleLinkedListNode<ItemT> | undefined;
+    let runSize = 1;
+    while (true) {
+      // Merge adjacent pairs of sorted runs of runSize nodes each, relinking both directions as we go
+      let left = head;
+      head = undefined;
+      tail = undefined;
+      let numMerges = 0;
+
+      while (left !== undefined) {
+        numMerges += 1;
+
+        let right: DoubleLinkedListNode<ItemT> | undefined = left;
+        let leftSize = 0;
+        while (leftSize < runSize && right !== undefined) {
+          right = right[NEXT];
+          leftSize += 1;
+        }
+        let rightSize = runSize;
+
+        while (leftSize > 0 || (rightSize > 0 && right !== undefined)) {
+          let next: DoubleLinkedListNode<ItemT>;
+          // Taking from the left run on ties keeps the sort stable
+          if (leftSize > 0 && (rightSize === 0 || right === undefined || !(compare(left![VALUE], right[VALUE]) > 0))) {
+            next = left!;
+            left = left![NEXT];
+            leftSize -= 1;
+          } else {
+            next = right!;
+            right = right![NEXT];
+            rightSize -= 1;
+          }
+
+          if (tail !== undefined) {
+            tail[NEXT] = next;
+          } else {
+            head = next;
+          }
+          next[PREV] = tail;
+          tail = next;
+        }
+
+        left = right;
+      }
+
+      tail![NEXT] = undefined;
+
+      if (numMerges <= 1) {
+        break;
+      }
+
+      runSize *= 2;
+    }
+
+    this.firstNode = head;
+    this.lastNode = tail;
+    this.modCount += 1;
+
+    this.index?.invalidate();
+
+    if (this.observers !== undefined) {
+      this.notifyRun('sort', 'onMove', head!, tail!, undefined);
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes every item that satisfies the provided testing function, keeping the remaining nodes in place.
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters, where index is the item's
+   * position before any removals.
+   * @returns The number of removed items
+   * @remarks Time complexity: O(n)
+   *
+   * @example Sweeping expired tasks
+   * ```typescript
+   * const tasks = new DoubleLinkedList({ id: 1, expiresAt: 10 }, { id: 2, expiresAt: 30 });
+   * const removed = tasks.removeWhere(task => task.expiresAt < 20);
+   * console.log(removed); // 1
+   * ```
+   */
+  public removeWhere(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): number {
+    return this.removeNodesWhere('removeWhere', predicate);
+  }
+
+  /**
+   * Removes every item that doesn't satisfy the provided testing function, keeping the remaining nodes in place.
+   * This is an in-place version of `filter()`.
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters, where index is the item's
+   * position before any removals.
+   * @returns The number of removed items
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4);
+   * list.retainWhere(x => x % 2 === 0);
+   * console.log([...list]); // [2, 4]
+   * ```
+   */
+  public retainWhere(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): number {
+    return this.removeNodesWhere('retainWhere', (value, index, list) => !predicate(value, index, list));
+  }
+
+  /**
+   * Reverses the order of the list in place by relinking its existing nodes.
+   * Every node reference held elsewhere stays valid and keeps pointing at the same value.
+   *
+   * @returns This list, for chaining
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * list.reverse();
+   * console.log([...list]); // [3, 2, 1]
+   * ```
+   */
+  public reverse(): this {
+    let cursor = this.firstNode;
+    while (cursor !== undefined) {
+      const next: DoubleLinkedListNode<ItemT> | undefined = cursor[NEXT];
+      cursor[NEXT] = cursor[PREV];
+      cursor[PREV] = next;
+      cursor = next;
+    }
+
+    const first = this.firstNode;
+    this.firstNode = this.lastNode;
+    this.lastNode = first;
+    this.modCount += 1;
+
+    this.index?.invalidate();
+
+    if (this.observers !== undefined && first !== undefined) {
+      this.notifyRun('reverse', 'onMove', this.firstNode!, first, undefined);
+    }
+
+    return this;
+  }
+
+  /**
+   * Rotates the list in place, moving items from the tail to the head.  Only the links at the ends of the list change, so
+   * every node reference held elsewhere stays valid.
+   *
+   * @param count - The number of items to move from the tail to the head.  Negative counts move items from the head to the
+   * tail instead, and counts larger than the list wrap around.
+   * @returns This list, for chaining
+   * @throws `RangeError` if `count` isn't an integer
+   * @remarks Time complexity: O(min(k, n - k)) where k is the effective rotation
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+   * list.rotate(2);
+   * console.log([...list]); // [4, 5, 1, 2, 3]
+   * list.rotate(-2);
+   * console.log([...list]); // [1, 2, 3, 4, 5]
+   * ```
+   */
+  public rotate(count: number): this {
+    if (!Number.isInteger(count)) {
+      throw new RangeError(`count must be an integer, got ${count}`);
+    }
+
+    const length = this.length;
+    const shift = length > 0 ? ((count % length) + length) % length : 0;
+    if (shift === 0) {
+      return this; // Nothing to do -- the order is unchanged
+    }
+
+    // Find the new head, walking from whichever end is closer
+    let newFirst: DoubleLinkedListNode<ItemT>;
+    if (shift <= length - shift) {
+      newFirst = this.lastNode!;
+      for (let i = 1; i < shift; i += 1) {
+        newFirst = newFirst[PREV]!;
+      }
+    } else {
+      newFirst = this.firstNode!;
+      for (let i = 0; i < length - shift; i += 1) {
+        newFirst = newFirst[NEXT]!;
+      }
+    }
+
+    // Close the list into a ring, then open it before the new head
+    const newLast = newFirst[PREV]!;
+    const oldLast = this.lastNode!;
+    this.lastNode![NEXT] = this.firstNode;
+    this.firstNode![PREV] = this.lastNode;
+    newLast[NEXT] = undefined;
+    newFirst[PREV] = undefined;
+
+    this.firstNode = newFirst;
+    this.lastNode = newLast;
+    this.modCount += 1;
+
+    this.index?.invalidate();
+
+    // Only the nodes that wrapped around to the head have moved
+    if (this.observers !== undefined) {
+      this.notifyRun('rotate', 'onMove', newFirst, oldLast, undefined);
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes duplicate items in place, keeping the first item of each group of duplicates.
+   * Items are compared using SameValueZero equality (like `Set`), either directly or through the keys produced by `keyFn`.
+   *
+   * @param keyFn - Function producing the key to compare for each item (default: the item itself)
+   * @param scope - `'consecutive'` to only remove items equal to the item before them, like the Unix `uniq` command, or
+   * `'global'` to remove every item equal to any earlier item (default: `'consecutive'`)
+   * @returns The number of removed items
+   * @remarks Time complexity: O(n).  The `'global'` scope uses O(u) extra space where u is the number of unique keys.
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 1, 2, 1, 3, 3);
+   * list.dedupe();
+   * console.log([...list]); // [1, 2, 1, 3]
+   * list.dedupe(undefined, 'global');
+   * console.log([...list]); // [1, 2, 3]
+   *
+   * const users = new DoubleLinkedList({ id: 1 }, { id: 2 }, { id: 1 });
+   * users.dedupe(user => user.id, 'global');
+   * console.log(users.getLength()); // 2
+   * ```
+   */
+  public dedupe(keyFn: (value: ItemT) => unknown = (value) => value, scope: 'consecutive' | 'global' = 'consecutive'): number {
+    if (scope === 'global') {
+      const seen = new Set<unknown>();
+      return this.removeNodesWhere('dedupe', (value) => {
+        const key = keyFn(value);
+        if (seen.has(key)) {
+          return true;
+        }
+        seen.add(key);
+        return false;
+      });
+    }
+
+    let hasPrevious = false;
+    let previousKey: unknown;
+    return this.removeNodesWhere('dedupe', (value) => {
+      const key = keyFn(value);
+      if (hasPrevious && sameValueZero(key, previousKey)) {
+        return true;
+      }
+      hasPrevious = true;
+      previousKey = key;
+      return false;
+    });
+  }
+
+  /**
+   * Makes the list iterable, enabling use with for...of loops, spread operator, Array.from(), etc.
+   *
+   * @returns An iterator that yields each item in the list from head to tail
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example Iterator usage
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   *
+   * // for...of loop
+   * for (const item of list) {
+   *   console.log(item); // 'a', 'b', 'c'
+   * }
+   *
+   * // Spread operator
+   * const array = [...list]; // ['a', 'b', 'c']
+   *
+   * // Array.from()
+   * const array2 = Array.from(list); // ['a', 'b', 'c']
+   * ```
+   */
+  public [Symbol.iterator](): Iterator<ItemT> {
+    return this.values();
+  }
+
+  /**
+   * Iterates over the items of the list from head to tail, optionally starting from a specific node.
+   *
+   * @param fromNode - The node to start from (default: the head).  If it doesn't belong to this list, nothing is yielded.
+   * @returns An iterator that yields each item from `fromNode` to the tail
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * console.log([...list.values(list.getNodeAt(1))]); // ['b', 'c']
+   * ```
+   */
+  public values(fromNode?: DoubleLinkedListNode<ItemT>): IterableIterator<ItemT> {
+    return this.walkFrom(fromNode ?? this.firstNode, NEXT, nodeValue);
+  }
+
+  /**
+   * Iterates over the items of the list from tail to head, optionally starting from a specific node.
+   *
+   * @param fromNode - The node to start from (default: the tail).  If it doesn't belong to this list, nothing is yielded.
+   * @returns An iterator that yields each item from `fromNode` back to the head
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example Walking back through an undo history
+   * ```typescript
+   * const history = new DoubleLinkedList('open', 'type', 'save');
+   * for (const action of history.reversed()) {
+   *   console.log(action); // 'save', 'type', 'open'
+   * }
+   * ```
+   */
+  public reversed(fromNode?: DoubleLinkedListNode<ItemT>): IterableIterator<ItemT> {
+    return this.walkFrom(fromNode ?? this.lastNode, PREV, nodeValue);
+  }
+
+  /**
+   * Iterates over the nodes of the list from head to tail, optionally starting from a specific node.
+   * The next node is read before each node is yielded, so the yielded node may safely be removed during iteration.
+   *
+   * @param fromNode - The node to start from (default: the head).  If it doesn't belong to this list, nothing is yielded.
+   * @returns An iterator that yields each node from `fromNode` to the tail
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example Collecting nodes for later removal
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4);
+   * const evens = [...list.nodes()].filter((node) => getNodeValue(node) % 2 === 0);
+   * evens.forEach((node) => list.remove(node)); // O(1) each
+   * console.log([...list]); // [1, 3]
+   * ```
+   */
+  public nodes(fromNode?: DoubleLinkedListNode<ItemT>): IterableIterator<DoubleLinkedListNode<ItemT>> {
+    return this.walkFrom(fromNode ?? this.firstNode, NEXT, nodeItself);
+  }
+
+  /**
+   * Iterates over the nodes of the list from tail to head, optionally starting from a specific node.
+   * The previous node is read before each node is yielded, so the yielded node may safely be removed during iteration.
+   *
+   * @param fromNode - The node to start from (default: the tail).  If it doesn't belong to this list, nothing is yielded.
+   * @returns An iterator that yields each node from `fromNode` back to the head
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   */
+  public nodesReversed(fromNode?: DoubleLinkedListNode<ItemT>): IterableIterator<DoubleLinkedListNode<ItemT>> {
+    return this.walkFrom(fromNode ?? this.lastNode, PREV, nodeItself);
+  }
+
+  /**
+   * Iterates over `[index, item]` pairs from head to tail.
+   * Similar to Array.prototype.entries().
+   *
+   * @returns An iterator that yields an `[index, item]` pair for each item in the list
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b');
+   * for (const [index, item] of list.entries()) {
+   *   console.log(index, item); // 0 'a', then 1 'b'
+   * }
+   * ```
+   */
+  public *entries(): IterableIterator<[number, ItemT]> {
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself)) {
+      yield [index, node[VALUE]];
+      index += 1;
+    }
+  }
+
+  /**
+   * Iterates over the indices of the list.
+   * Similar to Array.prototype.keys().
+   *
+   * @returns An iterator that yields each index from 0 to length - 1
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   */
+  public *keys(): IterableIterator<number> {
+    let index = 0;
+    for (const _node of this.walkFrom(this.firstNode, NEXT, nodeItself)) {
+      yield index;
+      index += 1;
+    }
+  }
+
+  /**
+   * Makes the list usable with `for await...of`, yielding each item from head to tail.
+   * The list may be modified while the loop body awaits, following the rules described on `forEach`.
+   *
+   * @returns An async iterator that yields each item in the list from head to tail
+   * @remarks Time complexity: O(1) per iteration, O(n) for complete iteration
+   *
+   * @example
+   * ```typescript
+   * for await (const job of jobs) {
+   *   await run(job);
+   * }
+   * ```
+   */
+  public async *[Symbol.asyncIterator](): AsyncIterableIterator<ItemT> {
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself)) {
+      yield node[VALUE];
+    }
+  }
+
+  /**
+   * Executes an async function for each item in the list, from head to tail, with bounded concurrency.
+   *
+   * Items are handed out in list order as callbacks finish, so the list may be modified while callbacks are in flight,
+   * following the rules described on `forEach`.  In particular, an item's node may be removed as soon as its callback
+   * finishes, and items removed before they're reached are skipped.  Items appended while callbacks are in flight are
+   * started as soon as there's room for them, so they're also processed at full concurrency.
+   *
+   * @param callback - Function to execute for each item. Receives (value, index, list) as parameters, where index counts the
+   * items handed out so far.
+   * @param options - Options such as the maximum number of callbacks in flight at once (default: 1)
+   * @returns A promise that resolves once every callback has finished.  If a callback rejects, no further callbacks are
+   * started and the promise rejects with that error.  It also rejects with a `RangeError` if `concurrency` isn't a positive
+   * integer or `Infinity`.
+   * @remarks Time complexity: O(n)
+   *
+   * @example Processing and removing finished jobs
+   * ```typescript
+   * await jobs.forEachAsync(
+   *   async (job) => {
+   *     await upload(job);
+   *     jobs.remove(jobs.findNodeByValue(job)!);
+   *   },
+   *   { concurrency: 4 }
+   * );
+   * ```
+   */
+  public async forEachAsync(
+    callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => void | PromiseLike<void>,
+    options: DoubleLinkedListAsyncOptions = {}
+  ): Promise<void> {
+    await this.runAsync(async (node, index) => {
+      await callback(node[VALUE], index, this);
+    }, options);
+  }
+
+  /**
+   * Creates a new DoubleLinkedList with the results of calling an async function on every item, with bounded concurrency.
+   * Results are kept in list order regardless of the order in which callbacks finish.
+   *
+   * The list may be modified while callbacks are in flight, as described on `forEachAsync`.  Items removed before they're
+   * reached are skipped and don't appear in the result.
+   *
+   * @typeParam U - The type of items in the returned list
+   * @param callback - Function that produces an item of the new list. Receives (value, index, list) as parameters.
+   * @param options - Options such as the maximum number of callbacks in flight at once (default: 1)
+   * @returns A promise resolving to a new DoubleLinkedList with the transformed items.  If a callback rejects, no further
+   * callbacks are started and the promise rejects with that error.  It also rejects with a `RangeError` if `concurrency`
+   * isn't a positive integer or `Infinity`.
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const urls = new DoubleLinkedList('/a', '/b', '/c');
+   * const bodies = await urls.mapAsync(async (url) => (await fetch(url)).text(), { concurrency: 2 });
+   * ```
+   */
+  public async mapAsync<U>(
+    callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U | PromiseLike<U>,
+    options: DoubleLinkedListAsyncOptions = {}
+  ): Promise<DoubleLinkedList<U>> {
+    const results: U[] = [];
+    await this.runAsync(async (node, index) => {
+      results[index] = await callback(node[VALUE], index, this);
+    }, options);
+    return DoubleLinkedList.from(results);
+  }
+
+  /**
+   * Executes a provided function once for each item in the list.
+   * Similar to Array.prototype.forEach().
+   *
+   * The list may be modified while it's being traversed, by this method or by any of the iterators or callback-based
+   * methods.  The rules match those of `Map` and `Set` iteration:
+   * - Removing the current node is safe, and the traversal continues with the node that followed it
+   * - Nodes removed before they're reached aren't visited
+   * - Nodes inserted ahead of the traversal, such as immediately after the current node, are visited
+   * - Nodes inserted behind the traversal aren't visited
+   * - Moving a node counts as removing it and inserting it at its new position
+   *
+   * Callback-based methods such as this one register with the list for the length of the call, so the list keeps their
+   * position up to date however many nodes are removed.  Iterators don't register, so one that's abandoned part way costs
+   * nothing.  Instead, an iterator works out its position from the current node and its two neighbors when it advances.  If
+   * all three were removed in the meantime, it can't tell which of the remaining nodes it has visited, so it starts again
+   * from the beginning of the list.  Use `enableStrictIteration` to make modifications during a traversal throw instead.
+   *
+   * @param callback - Function to execute for each item. Receives (value, index, list) as parameters.
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * list.forEach((value, index) => {
+   *   console.log(`${index}: ${value}`); // "0: a", "1: b", "2: c"
+   * });
+   * ```
+   *
+   * @example Removing expired items while iterating
+   * ```typescript
+   * tasks.forEach((task) => {
+   *   if (task.isExpired()) {
+   *     tasks.remove(task.node);
+   *   }
+   * });
+   * ```
+   */
+  public forEach(callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => void): void {
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      callback(node[VALUE], index, this);
+      index += 1;
+    }
+  }
+
+  /**
+   * Creates a new DoubleLinkedList with the results of calling a provided function on every item.
+   * Similar to Array.prototype.map().
+   *
+   * @typeParam U - The type of items in the returned list
+   * @param callback - Function that produces an item of the new list. Receives (value, index, list) as parameters.
+   * @returns A new DoubleLinkedList with the transformed items
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const numbers = new DoubleLinkedList(1, 2, 3);
+   * const doubled = numbers.map(x => x * 2);
+   * console.log([...doubled]); // [2, 4, 6]
+   *
+   * const strings = numbers.map(x => x.toString());
+   * console.log([...strings]); // ['1', '2', '3']
+   * ```
+   */
+  public map<U>(callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U): DoubleLinkedList<U> {
+    const result = new DoubleLinkedList<U>();
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      result.append(callback(node[VALUE], index, this));
+      index += 1;
+    }
+    return result;
+  }
+
+  /**
+   * Creates a lazy sequence over the items of the list, for chaining operations such as `map`, `filter` and `take` without
+   * building an intermediate list at each step.  No work is done until the sequence is iterated or collected with
+   * `toList()`, `toArray()` or `reduce()`, and iteration stops reading the list as soon as the chain has what it needs.
+   *
+   * @returns A lazy sequence that reads the list from head to tail each time it's iterated
+   * @remarks Time complexity: O(1).  Collecting the sequence is O(k) where k is the number of items read from the list.
+   *
+   * @example
+   * ```typescript
+   * const list = DoubleLinkedList.from({ length: 1_000_000 }, (_, i) => i);
+   * const firstSquares = list
+   *   .lazy()
+   *   .filter(x => x % 7 === 0)
+   *   .map(x => x * x)
+   *   .take(3)
+   *   .toArray();
+   * console.log(firstSquares); // [0, 49, 196] -- only the first 15 items were read
+   * ```
+   */
+  public lazy(): LazySequence<ItemT> {
+    return new LazySequence(this, <U>() => new DoubleLinkedList<U>());
+  }
+
+  /**
+   * Returns the first item in the list that satisfies the provided testing function.
+   * Similar to Array.prototype.find().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The first item that matches the predicate, or `undefined` if no match is found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+   * const found = list.find(x => x > 3);
+   * console.log(found); // 4
+   *
+   * const notFound = list.find(x => x > 10);
+   * console.log(notFound); // undefined
+   * ```
+   */
+  public find(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): ItemT | undefined {
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        return node[VALUE];
+      }
+      index += 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the first index at which a given item can be found in the list.
+   * Similar to Array.prototype.indexOf().
+   *
+   * @param searchElement - The item to search for
+   * @param fromIndex - The index to start the search from (default: 0)
+   * @param equals - Function deciding whether an item matches (default: the list's `equals` function, if set with
+   * `setEquals`, otherwise strict equality like Array.prototype.indexOf())
+   * @returns The index of the first occurrence of the item, or -1 if not found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c', 'b');
+   * console.log(list.indexOf('b'));    // 1 (first occurrence)
+   * console.log(list.indexOf('b', 2)); // 3 (starting from index 2)
+   * console.log(list.indexOf('z'));    // -1 (not found)
+   * ```
+   *
+   * @example Custom equality
+   * ```typescript
+   * const points = new DoubleLinkedList({ x: 1, y: 2 }, { x: 3, y: 4 });
+   * console.log(points.indexOf({ x: 3, y: 4 }, 0, (a, b) => a.x === b.x && a.y === b.y)); // 1
+   * ```
+   */
+  public indexOf(
+    searchElement: ItemT,
+    fromIndex: number = 0,
+    equals: (a: ItemT, b: ItemT) => boolean = this.equals ?? strictEquals
+  ): number {
+    let index = 0;
+    let cursor = this.firstNode;
+
+    // Skip to fromIndex
+    while (cursor !== undefined && index < fromIndex) {
+      cursor = cursor[NEXT];
+      index += 1;
+    }
+
+    while (cursor !== undefined) {
+      if (equals(cursor[VALUE], searchElement)) {
+        return index;
+      }
+      cursor = cursor[NEXT];
+      index += 1;
+    }
+    return -1;
+  }
+
+  /**
+   * Determines whether the list includes a certain item.
+   * Similar to Array.prototype.includes().
+   *
+   * @param searchElement - The item to search for
+   * @param fromIndex - The index to start the search from (default: 0)
+   * @param equals - Function deciding whether an item matches (default: the list's `equals` function, if set with
+   * `setEquals`, otherwise SameValueZero equality like Array.prototype.includes(), which unlike `===` finds `NaN`)
+   * @returns `true` if the item is found, `false` otherwise
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * console.log(list.includes(2));    // true
+   * console.log(list.includes(4));    // false
+   * console.log(list.includes(1, 1)); // false (starting from index 1)
+   * console.log(new DoubleLinkedList(NaN).includes(NaN)); // true
+   * ```
+   */
+  public includes(
+    searchElement: ItemT,
+    fromIndex: number = 0,
+    equals: (a: ItemT, b: ItemT) => boolean = this.equals ?? sameValueZero
+  ): boolean {
+    return this.indexOf(searchElement, fromIndex, equals) !== -1;
+  }
+
+  /**
+   * Returns the first node whose item equals the given item.
+   * Like `includes()`, but returns the node, so that it can be removed or used as an insertion point in O(1).
+   *
+   * @param searchElement - The item to search for
+   * @param equals - Function deciding whether an item matches (default: the list's `equals` function, if set with
+   * `setEquals`, otherwise SameValueZero equality)
+   * @returns The first node holding a matching item, or `undefined` if not found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   *
+   * @example Keyed equality
+   * ```typescript
+   * const settings = new DoubleLinkedList({ key: 'theme', value: 'dark' }, { key: 'lang', value: 'en' });
+   * const node = settings.findNodeByValue({ key: 'lang', value: '' }, (a, b) => a.key === b.key);
+   * if (node) {
+   *   settings.remove(node);
+   * }
+   * ```
+   */
+  public findNodeByValue(
+    searchElement: ItemT,
+    equals: (a: ItemT, b: ItemT) => boolean = this.equals ?? sameValueZero
+  ): DoubleLinkedListNode<ItemT> | undefined {
+    let cursor = this.firstNode;
+    while (cursor !== undefined) {
+      if (equals(cursor[VALUE], searchElement)) {
+        return cursor;
+      }
+      cursor = cursor[NEXT];
+    }
+    return undefined;
+  }
+
+  /**
+   * Sets the function used to compare items by `indexOf`, `lastIndexOf`, `includes` and `findNodeByValue` when no `equals`
+   * function is passed to them.  This is useful for lists of plain objects that should be compared structurally or by key.
+   *
+   * @param equals - Function deciding whether two items are equal, or `undefined` to restore the default comparisons
+   * @returns This list, for chaining
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const configs = new DoubleLinkedList<{ name: string; port: number }>();
+   * configs.setEquals((a, b) => a.name === b.name && a.port === b.port);
+   * configs.append({ name: 'api', port: 80 });
+   * console.log(configs.includes({ name: 'api', port: 80 })); // true
+   * ```
+   */
+  public setEquals(equals: ((a: ItemT, b: ItemT) => boolean) | undefined): this {
+    this.equals = equals as ((a: unknown, b: unknown) => boolean) | undefined;
+    return this;
+  }
+
+  /**
+   * Returns the last index at which a given item can be found in the list, searching backward from the tail.
+   * Similar to Array.prototype.lastIndexOf().
+   *
+   * @param searchElement - The item to search for
+   * @param fromIndex - The index to start searching backward from (supports negative indices, default: the last index)
+   * @param equals - Function deciding whether an item matches (default: the list's `equals` function, if set with
+   * `setEquals`, otherwise strict equality like Array.prototype.lastIndexOf())
+   * @returns The index of the last occurrence of the item, or -1 if not found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the distance of the found item from the tail
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c', 'b');
+   * console.log(list.lastIndexOf('b'));    // 3 (last occurrence)
+   * console.log(list.lastIndexOf('b', 2)); // 1 (searching backward from index 2)
+   * console.log(list.lastIndexOf('z'));    // -1 (not found)
+   * ```
+   */
+  public lastIndexOf(
+    searchElement: ItemT,
+    fromIndex: number = this.length - 1,
+    equals: (a: ItemT, b: ItemT) => boolean = this.equals ?? strictEquals
+  ): number {
+    let index = this.length - 1;
+    let cursor = this.lastNode;
+    const startIndex = fromIndex < 0 ? this.length + fromIndex : fromIndex;
+
+    // Skip back to fromIndex
+    while (cursor !== undefined && index > startIndex) {
+      cursor = cursor[PREV];
+      index -= 1;
+    }
+
+    while (cursor !== undefined) {
+      if (equals(cursor[VALUE], searchElement)) {
+        return index;
+      }
+      cursor = cursor[PREV];
+      index -= 1;
+    }
+    return -1;
+  }
+
+  /**
+   * Gets the item at the specified index.
+   * Similar to Array.prototype.at(), and equivalent to `get()`.
+   *
+   * @param index - The zero-based index of the item to retrieve (supports negative indices)
+   * @returns The item at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index, or O(log n) when indexing is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * console.log(list.at(-1)); // 'c'
+   * ```
+   */
+  public at(index: number): ItemT | undefined {
+    return this.get(index);
+  }
+
+  /**
+   * Creates a new DoubleLinkedList with the items that pass the provided testing function.
+   * Similar to Array.prototype.filter().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns A new DoubleLinkedList with the items that passed the test
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4);
+   * const evens = list.filter(x => x % 2 === 0);
+   * console.log([...evens]); // [2, 4]
+   * ```
+   */
+  public filter<S extends ItemT>(
+    predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => value is S
+  ): DoubleLinkedList<S>;
+  public filter(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): DoubleLinkedList<ItemT>;
+  public filter(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): DoubleLinkedList<ItemT> {
+    const result = new DoubleLinkedList<ItemT>();
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        result.append(node[VALUE]);
+      }
+      index += 1;
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new DoubleLinkedList by calling a provided function on every item and flattening the results by one level.
+   * Similar to Array.prototype.flatMap().
+   *
+   * @typeParam U - The type of items in the returned list
+   * @param callback - Function that produces an item, or an array of items, of the new list. Receives (value, index, list) as
+   * parameters.
+   * @returns A new DoubleLinkedList with the flattened results
+   * @remarks Time complexity: O(n + m) where m is the number of items in the returned list
+   *
+   * @example
+   * ```typescript
+   * const words = new DoubleLinkedList('ab', 'c');
+   * const chars = words.flatMap(word => word.split(''));
+   * console.log([...chars]); // ['a', 'b', 'c']
+   * ```
+   */
+  public flatMap<U>(callback: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U | readonly U[]): DoubleLinkedList<U> {
+    const result = new DoubleLinkedList<U>();
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      const mapped = callback(node[VALUE], index, this);
+      if (Array.isArray(mapped)) {
+        for (const item of mapped as readonly U[]) {
+          result.append(item);
+        }
+      } else {
+        result.append(mapped as U);
+      }
+      index += 1;
+    }
+    return result;
+  }
+
+  /**
+   * Executes a reducer function on each item, from head to tail, resulting in a single value.
+   * Similar to Array.prototype.reduce().
+   *
+   * @typeParam U - The type of the accumulated value
+   * @param callback - Reducer function. Receives (accumulator, value, index, list) as parameters.
+   * @param initialValue - The initial accumulator.  If omitted, the first item is used and the reduction starts at the second.
+   * @returns The final accumulator
+   * @throws `TypeError` if the list is empty and no initial value is given
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * console.log(list.reduce((sum, x) => sum + x, 0)); // 6
+   * ```
+   */
+  public reduce(callback: (accumulator: ItemT, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => ItemT): ItemT;
+  public reduce<U>(callback: (accumulator: U, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U, initialValue: U): U;
+  public reduce<U>(
+    callback: (accumulator: U, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U,
+    ...initialValue: [] | [U]
+  ): U {
+    return this.reduceFrom(NEXT, callback, initialValue);
+  }
+
+  /**
+   * Executes a reducer function on each item, from tail to head, resulting in a single value.
+   * Similar to Array.prototype.reduceRight().
+   *
+   * @typeParam U - The type of the accumulated value
+   * @param callback - Reducer function. Receives (accumulator, value, index, list) as parameters.
+   * @param initialValue - The initial accumulator.  If omitted, the last item is used and the reduction starts at the one
+   * before it.
+   * @returns The final accumulator
+   * @throws `TypeError` if the list is empty and no initial value is given
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * console.log(list.reduceRight((text, x) => text + x, '')); // 'cba'
+   * ```
+   */
+  public reduceRight(callback: (accumulator: ItemT, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => ItemT): ItemT;
+  public reduceRight<U>(callback: (accumulator: U, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U, initialValue: U): U;
+  public reduceRight<U>(
+    callback: (accumulator: U, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U,
+    ...initialValue: [] | [U]
+  ): U {
+    return this.reduceFrom(PREV, callback, initialValue);
+  }
+
+  /**
+   * Tests whether at least one item in the list passes the provided testing function.
+   * Similar to Array.prototype.some().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns `true` if the predicate returns a truthy value for any item, `false` otherwise
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the first passing item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * console.log(list.some(x => x > 2)); // true
+   * ```
+   */
+  public some(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  /**
+   * Tests whether all items in the list pass the provided testing function.
+   * Similar to Array.prototype.every().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns `true` if the predicate returns a truthy value for every item (or the list is empty), `false` otherwise
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the first failing item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * console.log(list.every(x => x > 0)); // true
+   * ```
+   */
+  public every(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): boolean {
+    return this.findIndex((value, index, list) => !predicate(value, index, list)) === -1;
+  }
+
+  /**
+   * Returns the index of the first item in the list that satisfies the provided testing function.
+   * Similar to Array.prototype.findIndex().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The index of the first item that matches the predicate, or -1 if no match is found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'bb', 'cc');
+   * console.log(list.findIndex(s => s.length === 2)); // 1
+   * ```
+   */
+  public findIndex(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): number {
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        return index;
+      }
+      index += 1;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the first node in the list whose item satisfies the provided testing function.
+   * Like `find()`, but returns the node, so that it can be removed or used as an insertion point in O(1).
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The first node whose item matches the predicate, or `undefined` if no match is found
    * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found item
    *
    * @example
    * ```typescript
-   * const list = new DoubleLinkedList(1, 2, 3);
-   * console.log(list.includes(2));    // true
-   * console.log(list.includes(4));    // false
-   * console.log(list.includes(1, 1)); // false (starting from index 1)
+   * const list = new DoubleLinkedList(1, 5, 10);
+   * const node = list.findNode(x => x > 3);
+   * if (node) {
+   *   list.insertBeforeNode(node, 3);
+   * }
+   * console.log([...list]); // [1, 3, 5, 10]
+   * ```
+   */
+  public findNode(
+    predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean
+  ): DoubleLinkedListNode<ItemT> | undefined {
+    let index = 0;
+    for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        return node;
+      }
+      index += 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the last item in the list that satisfies the provided testing function, searching backward from the tail.
+   * Similar to Array.prototype.findLast().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The last item that matches the predicate, or `undefined` if no match is found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the distance of the found item from the tail
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4);
+   * console.log(list.findLast(x => x % 2 === 1)); // 3
+   * ```
+   */
+  public findLast(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): ItemT | undefined {
+    return this.findLastNode(predicate)?.[VALUE];
+  }
+
+  /**
+   * Returns the index of the last item in the list that satisfies the provided testing function, searching backward from the
+   * tail.
+   * Similar to Array.prototype.findLastIndex().
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The index of the last item that matches the predicate, or -1 if no match is found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the distance of the found item from the tail
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4);
+   * console.log(list.findLastIndex(x => x % 2 === 1)); // 2
+   * ```
+   */
+  public findLastIndex(predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean): number {
+    let index = this.length - 1;
+    for (const node of this.walkFrom(this.lastNode, PREV, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        return index;
+      }
+      index -= 1;
+    }
+    return -1;
+  }
+
+  /**
+   * Returns the last node in the list whose item satisfies the provided testing function, searching backward from the tail.
+   *
+   * @param predicate - Function to test each item. Receives (value, index, list) as parameters.
+   * @returns The last node whose item matches the predicate, or `undefined` if no match is found
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the distance of the found item from the tail
+   *
+   * @example
+   * ```typescript
+   * const history = new DoubleLinkedList('open', 'save', 'edit');
+   * const lastSave = history.findLastNode(action => action === 'save');
+   * ```
+   */
+  public findLastNode(
+    predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean
+  ): DoubleLinkedListNode<ItemT> | undefined {
+    let index = this.length - 1;
+    for (const node of this.walkFrom(this.lastNode, PREV, nodeItself, true)) {
+      if (predicate(node[VALUE], index, this)) {
+        return node;
+      }
+      index -= 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Joins all items of the list into a string.
+   * Similar to Array.prototype.join(): `null` and `undefined` items become empty strings.
+   *
+   * @param separator - The string to insert between items (default: ',')
+   * @returns The joined string
+   * @remarks Time complexity: O(n)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * console.log(list.join());     // 'a,b,c'
+   * console.log(list.join(' - ')); // 'a - b - c'
    * ```
    */
-  public includes(searchElement: ItemT, fromIndex: number = 0): boolean {
-    return this.indexOf(searchElement, fromIndex) !== -1;
+  public join(separator: string = ','): string {
+    let output = '';
+    let cursor = this.firstNode;
+    while (cursor !== undefined) {
+      const value = cursor[VALUE];
+      output += value === undefined || value === null ? '' : String(value as string);
+      cursor = cursor[NEXT];
+      if (cursor !== undefined) {
+        output += separator;
+      }
+    }
+    return output;
   }
 
   /**
@@ -647,7 +2276,7 @@ export class DoubleLinkedList<ItemT> {
    *
    * @param index - The zero-based index of the item to retrieve (supports negative indices)
    * @returns The item at the specified index, or `undefined` if index is out of bounds
-   * @remarks Time complexity: O(n) where n is the distance to the index
+   * @remarks Time complexity: O(n) where n is the distance to the index, or O(log n) when indexing is enabled
    *
    * @example Basic usage
    * ```typescript
@@ -665,56 +2294,394 @@ export class DoubleLinkedList<ItemT> {
    * console.log(list.get(-10)); // undefined (out of bounds)
    * ```
    */
-  public get(index: number): ItemT | undefined {
-    const node = this.getNodeAt(index);
-    return node?.[VALUE];
+  public get(index: number): ItemT | undefined {
+    const node = this.getNodeAt(index);
+    return node?.[VALUE];
+  }
+
+  /**
+   * Replaces the item at the specified index in place, keeping the node's identity.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the item to replace (supports negative indices)
+   * @param item - The new item
+   * @returns The previous item, or `undefined` if index is out of bounds, in which case nothing is changed
+   * @remarks Time complexity: O(n) where n is the distance to the index, or O(log n) when indexing is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const node = list.getNodeAt(-1);
+   * console.log(list.set(-1, 'z')); // 'c'
+   * console.log([...list]);         // ['a', 'b', 'z']
+   * console.log(list.getTail() === node); // true
+   * ```
+   */
+  public set(index: number, item: ItemT): ItemT | undefined {
+    const node = this.getNodeAt(index);
+    if (node === undefined) {
+      return undefined; // Nothing to do -- out of bounds
+    }
+
+    return setNodeValue(node, item);
+  }
+
+  /**
+   * Gets the node at the specified index.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the node to retrieve (supports negative indices)
+   * @returns The node at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index, or O(log n) when indexing is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const node = list.getNodeAt(1);
+   * console.log(node?.value); // 'b'
+   * ```
+   */
+  public getNodeAt(index: number): DoubleLinkedListNode<ItemT> | undefined {
+    const length = this.length;
+
+    // Handle negative indices
+    const actualIndex = index < 0 ? length + index : index;
+
+    // Check bounds
+    if (actualIndex < 0 || actualIndex >= length) {
+      return undefined;
+    }
+
+    if (this.index !== undefined) {
+      return this.index.select(actualIndex);
+    }
+
+    // Optimize by choosing shortest path (from head or tail)
+    const fromHead = actualIndex;
+    const fromTail = length - 1 - actualIndex;
+
+    if (fromHead <= fromTail) {
+      // Traverse from head
+      let current = this.firstNode;
+      for (let i = 0; i < fromHead && current; i += 1) {
+        current = current[NEXT];
+      }
+      return current;
+    } else {
+      // Traverse from tail
+      let current = this.lastNode;
+      for (let i = 0; i < fromTail && current; i += 1) {
+        current = current[PREV];
+      }
+      return current;
+    }
+  }
+
+  /**
+   * Gets the zero-based position of a node in the list.
+   * Unlike `indexOf`, this identifies the exact node, so it gives the right answer even when values repeat.
+   *
+   * @param node - The node to locate
+   * @returns The index of the node, or -1 if it doesn't belong to this list
+   * @remarks Time complexity: O(min(k, n - k)) where k is the index of the node, or O(log n) when indexing is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'a');
+   * const tail = list.getTail();
+   * if (tail) {
+   *   console.log(list.indexOfNode(tail)); // 2
+   *   console.log(list.indexOf('a'));      // 0
+   * }
+   * ```
+   */
+  public indexOfNode(node: DoubleLinkedListNode<ItemT>): number {
+    if (node[LIST] !== this) {
+      return -1; // Nothing to do -- wrong list
+    }
+
+    if (this.index !== undefined) {
+      return this.index.rankOf(node);
+    }
+
+    // Walk toward both ends at once, stopping at whichever is closer
+    let steps = 0;
+    let backward = node[PREV];
+    let forward = node[NEXT];
+    while (backward !== undefined && forward !== undefined) {
+      backward = backward[PREV];
+      forward = forward[NEXT];
+      steps += 1;
+    }
+    return backward === undefined ? steps : this.length - 1 - steps;
+  }
+
+  /**
+   * Determines the relative order of two nodes of the list.
+   *
+   * @param a - The first node
+   * @param b - The second node
+   * @returns A negative number if `a` comes before `b`, a positive number if `a` comes after `b`, zero if they're the same
+   * node, or `undefined` if either node doesn't belong to this list
+   * @remarks Time complexity: O(d) where d is the distance between the nodes, or O(log n) when indexing is enabled
+   *
+   * @example Ordering two selection anchors
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const anchor = list.getTail();
+   * const focus = list.getHead();
+   * if (anchor && focus) {
+   *   const [start, end] = list.compareNodePositions(anchor, focus)! <= 0 ? [anchor, focus] : [focus, anchor];
+   *   console.log(getNodeValue(start), getNodeValue(end)); // 'a' 'c'
+   * }
+   * ```
+   */
+  public compareNodePositions(a: DoubleLinkedListNode<ItemT>, b: DoubleLinkedListNode<ItemT>): number | undefined {
+    if (a[LIST] !== this || b[LIST] !== this) {
+      return undefined; // Nothing to do -- wrong list
+    }
+
+    if (a === b) {
+      return 0;
+    }
+
+    if (this.index !== undefined) {
+      return this.index.rankOf(a) - this.index.rankOf(b);
+    }
+
+    // Search outward from a in both directions until b is found
+    let forward = a[NEXT];
+    let backward = a[PREV];
+    while (forward !== undefined || backward !== undefined) {
+      if (forward === b) {
+        return -1;
+      } else if (backward === b) {
+        return 1;
+      }
+      forward = forward?.[NEXT];
+      backward = backward?.[PREV];
+    }
+
+    return undefined; // Unreachable for consistent lists
+  }
+
+  /**
+   * Creates a view over the nodes from `fromNode` to `toNode`, inclusive.
+   * The nodes may be given in either order: if `toNode` comes before `fromNode`, the view walks the list backward.
+   * Nothing is copied, so creating a range is cheap and operations on it only visit the nodes it covers.
+   *
+   * @param fromNode - The first node of the range
+   * @param toNode - The last node of the range
+   * @returns A view over the nodes between `fromNode` and `toNode`, which is empty if either node doesn't belong to this list
+   * @remarks Time complexity: O(d) where d is the distance between the nodes, or O(log n) when indexing is enabled
+   *
+   * @example Selecting between two anchors
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c', 'd');
+   * const anchor = list.getNodeAt(2)!;
+   * const focus = list.getNodeAt(0)!;
+   * console.log(list.range(anchor, focus).toArray()); // ['c', 'b', 'a']
+   * list.range(anchor, focus).removeAll();
+   * console.log([...list]); // ['d']
+   * ```
+   */
+  public range(fromNode: DoubleLinkedListNode<ItemT>, toNode: DoubleLinkedListNode<ItemT>): DoubleLinkedListRange<ItemT> {
+    const order = this.compareNodePositions(fromNode, toNode);
+    if (order === undefined) {
+      return this.createRange(undefined, undefined, false); // Nothing to do -- wrong list
+    }
+
+    return this.createRange(fromNode, toNode, order > 0);
+  }
+
+  /**
+   * Creates a view over a portion of the list selected by index, with the same semantics as Array.prototype.slice().
+   * Unlike `Array.prototype.slice()`, nothing is copied: the returned range reads the list's nodes when it's used.
+   *
+   * @param start - Zero-based index at which to start (supports negative indices, default: 0)
+   * @param end - Zero-based index before which to end (supports negative indices, default: the length of the list)
+   * @returns A view over the selected nodes
+   * @remarks Time complexity: O(n) where n is the distance to the indices, or O(log n) when indexing is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3, 4, 5);
+   * console.log(list.slice(1, -1).toArray());                // [2, 3, 4]
+   * console.log(list.slice(-2).map((x) => x * 10).toArray()); // [40, 50]
+   * ```
+   */
+  public slice(start = 0, end = this.length): DoubleLinkedListRange<ItemT> {
+    const length = this.length;
+    // Fractions are truncated and NaN counts as 0, as in Array.prototype.slice()
+    start = Math.trunc(start) || 0;
+    end = Math.trunc(end) || 0;
+    const actualStart = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+    const actualEnd = end < 0 ? Math.max(length + end, 0) : Math.min(end, length);
+
+    if (actualStart >= actualEnd) {
+      return this.createRange(undefined, undefined, false);
+    }
+
+    return this.createRange(this.getNodeAt(actualStart), this.getNodeAt(actualEnd - 1), false);
+  }
+
+  /**
+   * Creates a cursor for stateful traversal and editing, positioned on a node or at the end of the list.
+   *
+   * @param position - The node to start at, or a zero-based index (supports negative indices).  An index equal to the length
+   * of the list positions the cursor at the end.
+   * @returns A new cursor, or `undefined` if the node doesn't belong to this list or the index is out of bounds
+   * @remarks Time complexity: O(1) for nodes, O(n) for indices where n is the distance to the index, or O(log n) when indexing
+   * is enabled
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList('a', 'b', 'c');
+   * const cursor = list.cursorAt(-1)!;
+   * cursor.prev();
+   * cursor.replace('B');
+   * cursor.insertAfter('b2');
+   * console.log([...list]); // ['a', 'B', 'b2', 'c']
+   * ```
+   */
+  public cursorAt(position: DoubleLinkedListNode<ItemT> | number): ListCursor<ItemT> | undefined {
+    if (typeof position !== 'number') {
+      return position[LIST] === this ? new ListCursor(this, position) : undefined;
+    }
+
+    if (position === this.length) {
+      return new ListCursor(this, undefined);
+    }
+
+    const node = this.getNodeAt(position);
+    return node !== undefined ? new ListCursor(this, node) : undefined;
+  }
+
+  /**
+   * Enables an order-statistic index over the list, making positional lookups logarithmic instead of linear.
+   * Once enabled, the index is maintained by every mutating method.  Single-node operations update it in O(log n) time,
+   * while bulk relinking operations (such as `sort`, `appendList` or `splitAt`) invalidate it so that it's rebuilt in O(n)
+   * on the next positional lookup.
+   *
+   * This is worthwhile for large lists that are frequently accessed by index, such as editor buffers.  It costs extra memory
+   * per node and a small overhead on every insertion and removal.
+   *
+   * @remarks Time complexity: O(1).  The index is built lazily, on the first positional lookup.
+   *
+   * @example
+   * ```typescript
+   * const lines = new DoubleLinkedList<string>();
+   * lines.enableIndexing();
+   * // ... append a million lines ...
+   * lines.get(500_000);              // O(log n)
+   * lines.indexOfNode(someLineNode); // O(log n)
+   * ```
+   */
+  public enableIndexing(): void {
+    if (this.index === undefined) {
+      this.index = new PositionIndex(() => this.iterateNodes());
+    }
+  }
+
+  /**
+   * Disables and discards the index created by `enableIndexing`.
+   *
+   * @remarks Time complexity: O(1)
+   */
+  public disableIndexing(): void {
+    this.index = undefined;
+  }
+
+  /**
+   * Checks if indexing is enabled for this list.
+   *
+   * @returns `true` if `enableIndexing` has been called (and `disableIndexing` hasn't been called since), `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isIndexed(): boolean {
+    return this.index !== undefined;
+  }
+
+  /**
+   * Makes traversals throw a `ConcurrentModificationError` if the list is structurally modified while they're in progress,
+   * instead of following the rules described on `forEach`.  Any insertion, removal or move counts as a modification,
+   * including removing the current node; changing a node's value doesn't.
+   *
+   * This is useful in development to catch code that unintentionally changes a list while iterating over it.
+   *
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const list = new DoubleLinkedList(1, 2, 3);
+   * list.enableStrictIteration();
+   * for (const item of list) {
+   *   list.append(item); // Throws ConcurrentModificationError when the loop advances
+   * }
+   * ```
+   */
+  public enableStrictIteration(): void {
+    this.isStrict = true;
+  }
+
+  /**
+   * Restores the default behavior of traversals after `enableStrictIteration`.
+   *
+   * @remarks Time complexity: O(1)
+   */
+  public disableStrictIteration(): void {
+    this.isStrict = false;
   }
 
   /**
-   * Gets the node at the specified index.
-   * Supports negative indices to access from the end.
+   * Checks if strict iteration is enabled for this list.
    *
-   * @param index - The zero-based index of the node to retrieve (supports negative indices)
-   * @returns The node at the specified index, or `undefined` if index is out of bounds
-   * @remarks Time complexity: O(n) where n is the distance to the index
+   * @returns `true` if `enableStrictIteration` has been called (and `disableStrictIteration` hasn't been called since), `false`
+   * otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isStrictIteration(): boolean {
+    return this.isStrict;
+  }
+
+  /**
+   * Registers callbacks to be notified of every structural change to the list, so that views bound to the list can apply
+   * precise updates instead of re-reading it.  Lists without observers don't pay for notifications.
    *
-   * @example
+   * Operations that make several changes at once, like `splice` or `sort`, report them between `onBatch` start and end
+   * events.  Callbacks run synchronously and mustn't modify the list.
+   *
+   * @param observer - The callbacks to register.  Registering the same object twice notifies it twice.
+   * @returns A function that unregisters the callbacks.  Calling it more than once does nothing.
+   * @remarks Time complexity: O(k) to register or unregister, where k is the number of observers
+   *
+   * @example Keeping a rendered view in sync
    * ```typescript
-   * const list = new DoubleLinkedList('a', 'b', 'c');
-   * const node = list.getNodeAt(1);
-   * console.log(node?.value); // 'b'
+   * const list = new DoubleLinkedList('a', 'b');
+   * const stop = list.observe({
+   *   onInsert: (node, index) => console.log('insert', getNodeValue(node), index),
+   *   onRemove: (value) => console.log('remove', value),
+   * });
+   * list.push('c');  // insert c 2
+   * list.shift();    // remove a
+   * stop();
    * ```
    */
-  public getNodeAt(index: number): DoubleLinkedListNode<ItemT> | undefined {
-    const length = this.length;
-
-    // Handle negative indices
-    const actualIndex = index < 0 ? length + index : index;
-
-    // Check bounds
-    if (actualIndex < 0 || actualIndex >= length) {
-      return undefined;
-    }
-
-    // Optimize by choosing shortest path (from head or tail)
-    const fromHead = actualIndex;
-    const fromTail = length - 1 - actualIndex;
+  public observe(observer: DoubleLinkedListObserver<ItemT>): () => void {
+    this.observers = [...(this.observers ?? []), observer];
 
-    if (fromHead <= fromTail) {
-      // Traverse from head
-      let current = this.firstNode;
-      for (let i = 0; i < fromHead && current; i += 1) {
-        current = current[NEXT];
-      }
-      return current;
-    } else {
-      // Traverse from tail
-      let current = this.lastNode;
-      for (let i = 0; i < fromTail && current; i += 1) {
-        current = current[PREV];
+    let isObserving = true;
+    return () => {
+      if (!isObserving) {
+        return; // Nothing to do -- already unregistered
       }
-      return current;
-    }
+      isObserving = false;
+
+      // The array is replaced rather than changed, so notifications already in progress aren't affected
+      const observers = [...this.observers!];
+      observers.splice(observers.indexOf(observer), 1);
+      this.observers = observers.length > 0 ? observers : undefined;
+    };
   }
 
   /**
@@ -728,7 +2695,7 @@ export class DoubleLinkedList<ItemT> {
    * @param deleteCount - Number of items to remove from the list (default: 0)
    * @param items - Items to add to the list, beginning from the start position
    * @returns A new DoubleLinkedList containing the deleted items
-   * @remarks Time complexity: O(n) for index-based, O(1) for node-based start position
+   * @remarks Time complexity: O(n) for index-based (O(log n) when indexing is enabled), O(1) for node-based start position
    *
    * @example Remove items by index
    * ```typescript
@@ -798,6 +2765,11 @@ export class DoubleLinkedList<ItemT> {
       startNode = start;
     }
 
+    const isObserved = this.observers !== undefined;
+    if (isObserved) {
+      this.notify('onBatch', 'start', 'splice');
+    }
+
     // Remove items - deleteCount is naturally bounded by available nodes
     const removed = new DoubleLinkedList<ItemT>();
     let nodeToRemove = startNode;
@@ -829,8 +2801,549 @@ export class DoubleLinkedList<ItemT> {
       }
     }
 
+    if (isObserved) {
+      this.notify('onBatch', 'end', 'splice');
+    }
+
     return removed;
   }
+
+  // Private Methods
+
+  /**
+   * Detaches the run of nodes from `first` through `last` from their neighbors, updating the head and tail as needed.
+   * The run stays linked internally.  The nodes' list references and the list length are left untouched.
+   */
+  private unlinkRange(first: DoubleLinkedListNode<ItemT>, last: DoubleLinkedListNode<ItemT>): void {
+    if (this.traversals.length > 0) {
+      this.displaceTraversals(first, last);
+    }
+
+    const prev = first[PREV];
+    const next = last[NEXT];
+
+    if (prev !== undefined) {
+      prev[NEXT] = next;
+    } else {
+      this.firstNode = next;
+    }
+
+    if (next !== undefined) {
+      next[PREV] = prev;
+    } else {
+      this.lastNode = prev;
+    }
+
+    first[PREV] = undefined;
+    last[NEXT] = undefined;
+    this.modCount += 1;
+
+    if (this.index !== undefined) {
+      if (first === last) {
+        this.index.remove(first);
+      } else {
+        this.index.invalidate();
+      }
+    }
+  }
+
+  /**
+   * Updates the list references of a detached run of nodes, starting at `first`, so that they point to this list.
+   *
+   * @returns The number of nodes in the run
+   */
+  private claimRange(first: DoubleLinkedListNode<ItemT>): number {
+    let count = 0;
+    let cursor: DoubleLinkedListNode<ItemT> | undefined = first;
+    while (cursor !== undefined) {
+      cursor[LIST] = this;
+      cursor = cursor[NEXT];
+      count += 1;
+    }
+    return count;
+  }
+
+  /**
+   * Moves all nodes of `other` into this list immediately after `prev`, or at the head if `prev` is `undefined`, leaving
+   * `other` empty.  Observers are notified under the name of the public `operation` doing the move.
+   */
+  private takeAllAfter(
+    other: DoubleLinkedList<ItemT>,
+    prev: DoubleLinkedListNode<ItemT> | undefined,
+    operation: 'appendList' | 'prependList' | 'insertListAfterNode'
+  ): void {
+    const first = other.firstNode;
+    const last = other.lastNode;
+    if (other === this || first === undefined || last === undefined) {
+      return;
+    }
+
+    if (other.traversals.length > 0) {
+      other.displaceTraversals(first, last);
+    }
+
+    const count = other.length;
+    other.firstNode = undefined;
+    other.lastNode = undefined;
+    other.length = 0;
+    other.modCount += 1;
+    other.index?.invalidate();
+
+    this.claimRange(first);
+    this.linkRangeAfter(first, last, prev);
+    this.length += count;
+
+    if (other.observers !== undefined) {
+      other.notify('onClear');
+    }
+    if (this.observers !== undefined) {
+      this.notifyRun(operation, 'onInsert', first, last, prev === undefined ? 0 : last === this.lastNode ? this.length - count : undefined);
+    }
+  }
+
+  /**
+   * Links a detached run of nodes, from `first` through `last`, in immediately after `prev`, or at the head if `prev` is
+   * `undefined`.  The nodes' list references and the list length are left untouched.
+   */
+  private linkRangeAfter(
+    first: DoubleLinkedListNode<ItemT>,
+    last: DoubleLinkedListNode<ItemT>,
+    prev: DoubleLinkedListNode<ItemT> | undefined
+  ): void {
+    const next = prev !== undefined ? prev[NEXT] : this.firstNode;
+
+    first[PREV] = prev;
+    last[NEXT] = next;
+
+    if (prev !== undefined) {
+      prev[NEXT] = first;
+    } else {
+      this.firstNode = first;
+    }
+
+    if (next !== undefined) {
+      next[PREV] = last;
+    } else {
+      this.lastNode = last;
+    }
+
+    this.modCount += 1;
+
+    if (this.index !== undefined) {
+      if (first === last) {
+        this.index.insertAfter(prev, first);
+      } else {
+        this.index.invalidate();
+      }
+    }
+  }
+
+  /** Yields the nodes of the list in order */
+  private *iterateNodes(): Generator<DoubleLinkedListNode<ItemT>> {
+    let cursor = this.firstNode;
+    while (cursor !== undefined) {
+      const next: DoubleLinkedListNode<ItemT> | undefined = cursor[NEXT];
+      yield cursor;
+      cursor = next;
+    }
+  }
+
+  /**
+   * Walks the list from `start` in the given direction, producing `project(node)` for each node and following the rules for
+   * modification during iteration described on `forEach`.
+   *
+   * The iterator remembers the nodes on either side of the node it produced last, and only when the list has changed since
+   * does it use them to work out where to continue.  A registered iterator is also kept up to date by the list as nodes are
+   * unlinked, so it never loses its position.  It stays registered until it's done or `return` is called, which `for...of`
+   * does when a loop ends early, so only the callback-based methods register, and only for the length of the call.
+   */
+  private walkFrom<T>(
+    start: DoubleLinkedListNode<ItemT> | undefined,
+    step: typeof NEXT | typeof PREV,
+    project: (node: DoubleLinkedListNode<ItemT>) => T,
+    isRegistered = false
+  ): IterableIterator<T> {
+    const back = step === NEXT ? PREV : NEXT;
+    const traversal: Traversal<ItemT> = {
+      step,
+      current: undefined,
+      behind: undefined,
+      ahead: start !== undefined && start[LIST] === this ? start : undefined
+    };
+    let modCount = this.modCount;
+    let isDone = false;
+    if (isRegistered) {
+      this.traversals.push(traversal);
+    }
+
+    const finish = (): IteratorResult<T> => {
+      if (!isDone && isRegistered) {
+        this.traversals.splice(this.traversals.lastIndexOf(traversal), 1);
+      }
+      isDone = true;
+      traversal.current = undefined;
+      traversal.behind = undefined;
+      traversal.ahead = undefined;
+      return { done: true, value: undefined };
+    };
+
+    const iterator: IterableIterator<T> = {
+      next: (): IteratorResult<T> => {
+        if (isDone) {
+          return { done: true, value: undefined };
+        }
+
+        const { current } = traversal;
+        if (current !== undefined && modCount !== this.modCount) {
+          if (this.isStrict) {
+            finish();
+            throw new ConcurrentModificationError();
+          }
+          traversal.ahead = this.findResumeNode(current, traversal.behind, traversal.ahead, step);
+        }
+
+        const next = traversal.ahead;
+        if (next === undefined) {
+          return finish();
+        }
+
+        traversal.current = next;
+        traversal.behind = next[back];
+        traversal.ahead = next[step];
+        modCount = this.modCount;
+        return { done: false, value: project(next) };
+      },
+      return: finish,
+      [Symbol.iterator]: () => iterator
+    };
+    return iterator;
+  }
+
+  /**
+   * Works out where a traversal continues after the list changed while `current` was its latest node.  `behind` and `ahead`
+   * are the neighbors of `current`, in the direction of travel, from when it was reached.
+   *
+   * If `current` is still in place, the traversal continues with whatever now follows it, so nodes inserted after it are
+   * visited.  If it was removed, transferred or moved, the traversal continues with `ahead` or, if that's gone too, with
+   * whatever now follows `behind`.  If all three are gone the position is lost, and `recover` decides where to continue.
+   * Without it, the traversal starts again from the beginning of the list.
+   */
+  private findResumeNode(
+    current: DoubleLinkedListNode<ItemT>,
+    behind: DoubleLinkedListNode<ItemT> | undefined,
+    ahead: DoubleLinkedListNode<ItemT> | undefined,
+    step: typeof NEXT | typeof PREV,
+    recover?: () => DoubleLinkedListNode<ItemT> | undefined
+  ): DoubleLinkedListNode<ItemT> | undefined {
+    const back = step === NEXT ? PREV : NEXT;
+    const travelStart = step === NEXT ? this.firstNode : this.lastNode;
+
+    if (current[LIST] === this) {
+      if (current[back] === behind || (behind !== undefined && behind[LIST] !== this)) {
+        return current[step]; // Still in place
+      }
+
+      // Either nodes were inserted between behind and current, or current was moved away.  Walking on from behind tells
+      // them apart, passing only the inserted nodes.
+      let cursor = behind !== undefined ? behind[step] : travelStart;
+      while (cursor !== undefined && cursor !== current && cursor !== ahead) {
+        cursor = cursor[step];
+      }
+      if (cursor === current) {
+        return current[step];
+      }
+    }
+
+    if (ahead !== undefined && ahead[LIST] === this) {
+      return ahead;
+    } else if (behind === undefined) {
+      return travelStart; // current was the first node visited, so nothing before it has been visited
+    } else if (behind[LIST] === this) {
+      return behind[step];
+    }
+
+    return recover !== undefined ? recover() : travelStart;
+  }
+
+  /** Moves registered traversals off the run of nodes from `first` through `last`, which is about to be unlinked */
+  private displaceTraversals(first: DoubleLinkedListNode<ItemT>, last: DoubleLinkedListNode<ItemT>): void {
+    for (const traversal of this.traversals) {
+      const before = traversal.step === NEXT ? first[PREV] : last[NEXT];
+      const after = traversal.step === NEXT ? last[NEXT] : first[PREV];
+      for (let cursor: DoubleLinkedListNode<ItemT> | undefined = first; cursor !== undefined; cursor = cursor[NEXT]) {
+        if (cursor === traversal.ahead) {
+          traversal.ahead = after;
+        }
+        if (cursor === traversal.behind) {
+          traversal.behind = before;
+        }
+        if (cursor === last) {
+          break;
+        }
+      }
+    }
+  }
+
+  /** Implements `reduce` and `reduceRight`, walking from the head or the tail depending on `step` */
+  private reduceFrom<U>(
+    step: typeof NEXT | typeof PREV,
+    callback: (accumulator: U, value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => U,
+    initialValue: [] | [U]
+  ): U {
+    let start = step === NEXT ? this.firstNode : this.lastNode;
+    let index = step === NEXT ? 0 : this.length - 1;
+    const indexStep = step === NEXT ? 1 : -1;
+
+    let accumulator: U;
+    if (initialValue.length > 0) {
+      accumulator = initialValue[0] as U;
+    } else if (start !== undefined) {
+      // Without an initial value, the first item visited is the initial accumulator
+      accumulator = start[VALUE] as unknown as U;
+      start = start[step];
+      index += indexStep;
+    } else {
+      throw new TypeError('Reduce of empty list with no initial value');
+    }
+
+    for (const node of this.walkFrom(start, step, nodeItself, true)) {
+      accumulator = callback(accumulator, node[VALUE], index, this);
+      index += indexStep;
+    }
+    return accumulator;
+  }
+
+  /**
+   * Implements `forEachAsync` and `mapAsync`: keeps up to `concurrency` tasks in flight over a single traversal, starting
+   * the next one whenever a task finishes.  Items appended while tasks are in flight are picked up as they arrive, so the
+   * run only ends once no task is in flight and no item is left to hand out.
+   */
+  private async runAsync(
+    task: (node: DoubleLinkedListNode<ItemT>, index: number) => Promise<void>,
+    { concurrency = 1 }: DoubleLinkedListAsyncOptions
+  ): Promise<void> {
+    if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      throw new RangeError(`concurrency must be a positive integer or Infinity, got ${concurrency}`);
+    }
+
+    // Unlike an iterator, the traversal isn't finished for good when it runs out of nodes -- a later call hands out any
+    // nodes appended since.  Finished callbacks often remove their nodes, so the traversal can lose its position, and then
+    // it continues after the last node still in the list that was handed out, or from the head if there's none.
+    const handedOut = new WeakSet<DoubleLinkedListNode<ItemT>>();
+    const recover = () => {
+      let cursor = this.lastNode;
+      while (cursor !== undefined && !handedOut.has(cursor)) {
+        cursor = cursor[PREV];
+      }
+      return cursor !== undefined ? cursor[NEXT] : this.firstNode;
+    };
+    let current: DoubleLinkedListNode<ItemT> | undefined;
+    let behind: DoubleLinkedListNode<ItemT> | undefined;
+    let ahead: DoubleLinkedListNode<ItemT> | undefined;
+    let modCount = this.modCount;
+    const takeNext = (): DoubleLinkedListNode<ItemT> | undefined => {
+      if (current === undefined) {
+        ahead = this.firstNode; // Nothing has been handed out yet
+      } else if (modCount !== this.modCount) {
+        if (this.isStrict) {
+          throw new ConcurrentModificationError();
+        }
+        ahead = this.findResumeNode(current, behind, ahead, NEXT, recover);
+      }
+
+      if (ahead === undefined) {
+        return undefined;
+      }
+      current = ahead;
+      behind = current[PREV];
+      ahead = current[NEXT];
+      modCount = this.modCount;
+      handedOut.add(current);
+      return current;
+    };
+
+    // Settles once the run is over, either because everything was handed out and finished or because a task failed
+    let failure: { error: unknown } | undefined;
+    await new Promise<void>((resolve) => {
+      let nextIndex = 0;
+      let inFlight = 0;
+      const fail = (error: unknown) => {
+        failure ??= { error };
+        resolve();
+      };
+
+      const startTasks = () => {
+        while (failure === undefined && inFlight < concurrency) {
+          let node: DoubleLinkedListNode<ItemT> | undefined;
+          try {
+            node = takeNext();
+          } catch (e) {
+            fail(e);
+            return;
+          }
+          if (node === undefined) {
+            break;
+          }
+
+          const index = nextIndex;
+          nextIndex += 1;
+          inFlight += 1;
+          task(node, index).then(() => {
+            inFlight -= 1;
+            startTasks();
+          }, fail);
+        }
+
+        if (inFlight === 0 && failure === undefined) {
+          resolve();
+        }
+      };
+      startTasks();
+    });
+
+    if (failure !== undefined) {
+      throw failure.error;
+    }
+  }
+
+  /** Creates a range view over this list, giving it access to the list's private operations */
+  private createRange(
+    startNode: DoubleLinkedListNode<ItemT> | undefined,
+    endNode: DoubleLinkedListNode<ItemT> | undefined,
+    isReversed: boolean
+  ): DoubleLinkedListRange<ItemT> {
+    return new DoubleLinkedListRange(
+      startNode,
+      endNode,
+      isReversed,
+      <U>() => new DoubleLinkedList<U>(),
+      (first, last) => this.removeRun(first, last)
+    );
+  }
+
+  /**
+   * Implements `DoubleLinkedListRange.removeAll`: removes the run of nodes from `first` through `last` in one step and reports
+   * the removals as a batch.
+   *
+   * @returns The number of removed nodes, or 0 if the nodes no longer form a run of this list
+   */
+  private removeRun(first: DoubleLinkedListNode<ItemT>, last: DoubleLinkedListNode<ItemT>): number {
+    if (first[LIST] !== this || last[LIST] !== this) {
+      return 0; // Nothing to do -- stale range
+    }
+
+    // Validate that last still follows first, counting the nodes as we go
+    let count = 1;
+    for (let cursor = first; cursor !== last; count += 1) {
+      const next = cursor[NEXT];
+      if (next === undefined) {
+        return 0; // Nothing to do -- stale range
+      }
+      cursor = next;
+    }
+
+    this.unlinkRange(first, last);
+    this.length -= count;
+
+    // The run stays linked until observers have seen it
+    for (let cursor: DoubleLinkedListNode<ItemT> | undefined = first; cursor !== undefined; cursor = cursor[NEXT]) {
+      cursor[LIST] = undefined;
+    }
+    if (this.observers !== undefined) {
+      this.notifyRun('removeAll', 'onRemove', first, last, undefined);
+    }
+
+    // Clear node references
+    let cursor: DoubleLinkedListNode<ItemT> | undefined = first;
+    while (cursor !== undefined) {
+      const next: DoubleLinkedListNode<ItemT> | undefined = cursor[NEXT];
+      cursor[PREV] = undefined;
+      cursor[NEXT] = undefined;
+      cursor = next;
+    }
+
+    return count;
+  }
+
+  /** Implements `removeWhere`, `retainWhere` and `dedupe`, reporting the removals as a batch named after `operation` */
+  private removeNodesWhere(
+    operation: 'removeWhere' | 'retainWhere' | 'dedupe',
+    predicate: (value: ItemT, index: number, list: DoubleLinkedList<ItemT>) => boolean
+  ): number {
+    const isObserved = this.observers !== undefined;
+    if (isObserved) {
+      this.notify('onBatch', 'start', operation);
+    }
+
+    let numRemoved = 0;
+    let index = 0;
+    try {
+      for (const node of this.walkFrom(this.firstNode, NEXT, nodeItself, true)) {
+        if (predicate(node[VALUE], index, this) && this.remove(node)) {
+          numRemoved += 1;
+        }
+        index += 1;
+      }
+    } finally {
+      // The predicate may throw part way through, after some items were removed
+      if (isObserved) {
+        this.notify('onBatch', 'end', operation);
+      }
+    }
+    return numRemoved;
+  }
+
+  /** Calls the `event` callback of every observer.  Callers check for observers first, so unobserved lists skip the call. */
+  private notify<EventT extends keyof DoubleLinkedListObserver<ItemT>>(
+    event: EventT,
+    ...args: Parameters<NonNullable<DoubleLinkedListObserver<ItemT>[EventT]>>
+  ): void {
+    const observers = this.observers;
+    if (observers === undefined) {
+      return; // Nothing to do -- the last observer unregistered during the operation
+    }
+
+    for (const observer of observers) {
+      const callback = observer[event] as ((...callbackArgs: typeof args) => void) | undefined;
+      callback?.apply(observer, args);
+    }
+  }
+
+  /**
+   * Reports the run of nodes from `first` through `last`, as linked now, as one batch of `event` notifications named after
+   * `operation`.  Insertions are numbered from `firstIndex`, when it's known.
+   */
+  private notifyRun(
+    operation: DoubleLinkedListBatchOperation,
+    event: 'onInsert' | 'onRemove' | 'onMove',
+    first: DoubleLinkedListNode<ItemT>,
+    last: DoubleLinkedListNode<ItemT>,
+    firstIndex: number | undefined
+  ): void {
+    this.notify('onBatch', 'start', operation);
+
+    let index = firstIndex;
+    let cursor = first;
+    while (true) {
+      if (event === 'onInsert') {
+        this.notify('onInsert', cursor, index);
+      } else if (event === 'onRemove') {
+        this.notify('onRemove', cursor[VALUE], cursor);
+      } else {
+        this.notify('onMove', cursor);
+      }
+
+      if (cursor === last) {
+        break;
+      }
+      cursor = cursor[NEXT]!;
+      if (index !== undefined) {
+        index += 1;
+      }
+    }
+
+    this.notify('onBatch', 'end', operation);
+  }
 }
 
 /**
@@ -841,7 +3354,7 @@ export class DoubleLinkedList<ItemT> {
  *
  * Tuple structure: [list, value, previousNode, nextNode]
  * - Index 0: Reference to the list that owns this node (undefined after removal)
- * - Index 1: The immutable value stored in this node
+ * - Index 1: The value stored in this node, which can be replaced in place with `setNodeValue`
  * - Index 2: Reference to the previous node, or undefined if this is the first node
  * - Index 3: Reference to the next node, or undefined if this is the last node
  *
@@ -874,10 +3387,75 @@ export type DoubleLinkedListNode<ItemT> = [
   next: DoubleLinkedListNode<ItemT> | undefined
 ];
 
-const LIST = 0;
-const VALUE = 1;
-const PREV = 2;
-const NEXT = 3;
+/**
+ * A read-only view of a node, handed out by collections that keep their own rules about where items go, such as
+ * `SortedDoubleLinkedList`.  It's the same tuple as a DoubleLinkedListNode, so `getNodeValue`, `getNextNode` and
+ * `getPreviousNode` work on it, but it doesn't expose the list that owns it and can't be passed to `setNodeValue` or to the
+ * methods of a DoubleLinkedList.
+ *
+ * @typeParam ItemT - The type of the value stored in this node
+ */
+export type ReadonlyDoubleLinkedListNode<ItemT> = readonly [
+  list: unknown,
+  value: ItemT,
+  prev: ReadonlyDoubleLinkedListNode<ItemT> | undefined,
+  next: ReadonlyDoubleLinkedListNode<ItemT> | undefined
+];
+
+/** The position of a traversal, which the list keeps up to date as nodes are unlinked while it's registered */
+interface Traversal<ItemT> {
+  /** The direction of travel */
+  readonly step: typeof NEXT | typeof PREV;
+  /** The node produced last */
+  current: DoubleLinkedListNode<ItemT> | undefined;
+  /** The neighbor of `current` against the direction of travel, or the nearest node before it that's still in the list */
+  behind: DoubleLinkedListNode<ItemT> | undefined;
+  /** The neighbor of `current` in the direction of travel, or the nearest node after it that's still in the list */
+  ahead: DoubleLinkedListNode<ItemT> | undefined;
+}
+
+/** Projects a node to itself, for traversals that produce nodes */
+function nodeItself<ItemT>(node: DoubleLinkedListNode<ItemT>): DoubleLinkedListNode<ItemT> {
+  return node;
+}
+
+/** Projects a node to its value, for traversals that produce items */
+function nodeValue<ItemT>(node: DoubleLinkedListNode<ItemT>): ItemT {
+  return node[VALUE];
+}
+
+function isIterable<T>(value: Iterable<T> | ArrayLike<T>): value is Iterable<T> {
+  return typeof (value as Partial<Iterable<T>>)[Symbol.iterator] === 'function';
+}
+
+function isAsyncIterable<T>(
+  value: AsyncIterable<T> | Iterable<T | PromiseLike<T>> | ArrayLike<T | PromiseLike<T>>
+): value is AsyncIterable<T> {
+  return typeof (value as Partial<AsyncIterable<T>>)[Symbol.asyncIterator] === 'function';
+}
+
+/** Compares values the way Array.prototype.indexOf() does */
+function strictEquals(a: unknown, b: unknown): boolean {
+  return a === b;
+}
+
+/** Compares values the way `Set` and Array.prototype.includes() do: like `===`, except that `NaN` equals itself */
+function sameValueZero(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b);
+}
+
+/** Orders items the way Array.prototype.sort() does without a comparator */
+function defaultCompare(a: unknown, b: unknown): number {
+  if (a === undefined) {
+    return b === undefined ? 0 : 1;
+  } else if (b === undefined) {
+    return -1;
+  }
+
+  const aString = String(a as string);
+  const bString = String(b as string);
+  return aString < bString ? -1 : aString > bString ? 1 : 0;
+}
 
 /**
  * Helper function to get the list reference from a node.
@@ -893,19 +3471,41 @@ export function getNodeList<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined
  * @param node - The node to get the value from
  * @returns The value stored in this node
  */
-export function getNodeValue<ItemT>(node: DoubleLinkedListNode<ItemT>): ItemT;
+export function getNodeValue<ItemT>(node: ReadonlyDoubleLinkedListNode<ItemT>): ItemT;
 export function getNodeValue<_ItemT>(node: undefined): undefined;
-export function getNodeValue<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): ItemT | undefined;
-export function getNodeValue<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): ItemT | undefined {
+export function getNodeValue<ItemT>(node: ReadonlyDoubleLinkedListNode<ItemT> | undefined): ItemT | undefined;
+export function getNodeValue<ItemT>(node: ReadonlyDoubleLinkedListNode<ItemT> | undefined): ItemT | undefined {
   return node?.[VALUE];
 }
 
+/**
+ * Helper function to replace the value of a node in place, keeping the node's identity and position.
+ * @param node - The node to update
+ * @param value - The new value
+ * @returns The previous value, or undefined if the node no longer belongs to a list, in which case nothing is changed
+ */
+export function setNodeValue<ItemT>(node: DoubleLinkedListNode<ItemT>, value: ItemT): ItemT | undefined {
+  if (node[LIST] === undefined) {
+    return undefined; // Nothing to do -- removed node
+  }
+
+  const previous = node[VALUE];
+  node[VALUE] = value;
+  return previous;
+}
+
 /**
  * Helper function to get the previous node from a node.
  * @param node - The node to get the previous node from
  * @returns The previous node, or undefined if this is the first node
  */
-export function getPreviousNode<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): DoubleLinkedListNode<ItemT> | undefined {
+export function getPreviousNode<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): DoubleLinkedListNode<ItemT> | undefined;
+export function getPreviousNode<ItemT>(
+  node: ReadonlyDoubleLinkedListNode<ItemT> | undefined
+): ReadonlyDoubleLinkedListNode<ItemT> | undefined;
+export function getPreviousNode<ItemT>(
+  node: ReadonlyDoubleLinkedListNode<ItemT> | undefined
+): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
   return node?.[PREV];
 }
 
@@ -914,6 +3514,8 @@ export function getPreviousNode<ItemT>(node: DoubleLinkedListNode<ItemT> | undef
  * @param node - The node to get the next node from
  * @returns The next node, or undefined if this is the last node
  */
-export function getNextNode<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): DoubleLinkedListNode<ItemT> | undefined {
+export function getNextNode<ItemT>(node: DoubleLinkedListNode<ItemT> | undefined): DoubleLinkedListNode<ItemT> | undefined;
+export function getNextNode<ItemT>(node: ReadonlyDoubleLinkedListNode<ItemT> | undefined): ReadonlyDoubleLinkedListNode<ItemT> | undefined;
+export function getNextNode<ItemT>(node: ReadonlyDoubleLinkedListNode<ItemT> | undefined): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
   return node?.[NEXT];
 }
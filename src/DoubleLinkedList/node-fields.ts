@@ -0,0 +1,6 @@
+// Tuple indices of the fields of a DoubleLinkedListNode, shared by the modules that traverse nodes directly
+
+export const LIST = 0;
+export const VALUE = 1;
+export const PREV = 2;
+export const NEXT = 3;
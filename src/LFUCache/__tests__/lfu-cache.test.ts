@@ -0,0 +1,168 @@
+import { LFUCache } from '../index.js';
+
+describe('LFUCache', () => {
+  it('should reject invalid options', () => {
+    expect(() => new LFUCache<string, number>({ capacity: 0 })).toThrow(RangeError);
+    expect(() => new LFUCache<string, number>({ capacity: 1.5 })).toThrow(RangeError);
+    expect(() => new LFUCache<string, number>({ capacity: 1, decayIntervalMs: 0 })).toThrow(RangeError);
+    expect(() => new LFUCache<string, number>({ capacity: 1, decayIntervalMs: NaN })).toThrow(RangeError);
+    expect(() => new LFUCache<string, number>({ capacity: 1, decayIntervalMs: Infinity })).toThrow(RangeError);
+    expect(new LFUCache<string, number>({ capacity: 3 }).getCapacity()).toBe(3);
+  });
+
+  it('get, set, peek, has and delete should work', () => {
+    const cache = new LFUCache<string, number>({ capacity: 3 });
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.has('a')).toBe(false);
+    expect(cache.getFrequency('a')).toBeUndefined();
+
+    cache.set('a', 1).set('b', 2);
+    expect(cache.getSize()).toBe(2);
+    expect(cache.getFrequency('a')).toBe(1);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.getFrequency('a')).toBe(2);
+
+    // Updating counts as a use, while peek and has don't
+    cache.set('a', 10);
+    expect(cache.peek('a')).toBe(10);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.peek('z')).toBeUndefined();
+    expect(cache.getFrequency('a')).toBe(3);
+    expect(cache.getSize()).toBe(2);
+
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.delete('a')).toBe(false);
+    expect(cache.has('a')).toBe(false);
+    expect(cache.getSize()).toBe(1);
+    expect([...cache]).toEqual([['b', 2]]);
+  });
+
+  it('should evict the least frequently used entry, breaking ties by recency', () => {
+    const evicted: Array<[string, number]> = [];
+    const cache = new LFUCache<string, number>({ capacity: 3, onEvict: (key, value) => evicted.push([key, value]) });
+
+    cache.set('a', 1).set('b', 2).set('c', 3);
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+
+    // 'c' has the lowest count
+    cache.set('d', 4);
+    expect(evicted).toEqual([['c', 3]]);
+
+    // 'd' is now the only entry used once
+    cache.set('e', 5);
+    expect(evicted).toEqual([
+      ['c', 3],
+      ['d', 4]
+    ]);
+
+    // 'b' and 'e' are both used twice, and 'b' was used less recently
+    cache.get('e');
+    cache.set('f', 6);
+    cache.set('g', 7);
+    expect(evicted).toEqual([
+      ['c', 3],
+      ['d', 4],
+      ['b', 2],
+      ['f', 6]
+    ]);
+    expect(cache.getSize()).toBe(3);
+  });
+
+  it('should iterate from most to least valuable', () => {
+    const cache = new LFUCache<string, number>({ capacity: 5 });
+    cache.set('a', 1).set('b', 2).set('c', 3).set('d', 4);
+    cache.get('c');
+    cache.get('a');
+    cache.get('a');
+
+    expect([...cache.keys()]).toEqual(['a', 'c', 'd', 'b']);
+    expect([...cache.values()]).toEqual([1, 3, 4, 2]);
+    expect([...cache.entries()]).toEqual([
+      ['a', 1],
+      ['c', 3],
+      ['d', 4],
+      ['b', 2]
+    ]);
+  });
+
+  it('clear should remove everything without calling onEvict', () => {
+    const evicted: string[] = [];
+    const cache = new LFUCache<string, number>({ capacity: 2, onEvict: (key) => evicted.push(key) });
+    cache.set('a', 1).set('b', 2);
+    cache.get('a');
+    cache.clear();
+    expect(cache.getSize()).toBe(0);
+    expect(cache.get('a')).toBeUndefined();
+    expect([...cache]).toEqual([]);
+
+    cache.set('c', 3).set('d', 4).set('e', 5);
+    expect(evicted).toEqual(['c']);
+  });
+
+  describe('decay', () => {
+    it('decay() should halve use counts and merge buckets in eviction order', () => {
+      const evicted: string[] = [];
+      const cache = new LFUCache<string, number>({ capacity: 4, onEvict: (key) => evicted.push(key) });
+      cache.set('a', 1).set('b', 2).set('c', 3).set('d', 4);
+      for (let i = 0; i < 3; i += 1) {
+        cache.get('a'); // 4 uses
+      }
+      for (let i = 0; i < 2; i += 1) {
+        cache.get('b'); // 3 uses
+      }
+      cache.get('c'); // 2 uses
+
+      cache.decay();
+      expect(['a', 'b', 'c', 'd'].map((key) => cache.getFrequency(key))).toEqual([2, 2, 1, 1]);
+      expect([...cache.keys()]).toEqual(['a', 'b', 'c', 'd']);
+
+      cache.decay();
+      expect(['a', 'b', 'c', 'd'].map((key) => cache.getFrequency(key))).toEqual([1, 1, 1, 1]);
+
+      // Entries that came from lower counts are evicted first
+      cache.set('e', 5);
+      cache.set('f', 6);
+      expect(evicted).toEqual(['d', 'c']);
+
+      // Merged entries keep working
+      cache.get('a');
+      expect(cache.getFrequency('a')).toBe(2);
+      expect(cache.delete('b')).toBe(true);
+      expect([...cache.keys()]).toEqual(['a', 'f', 'e']);
+    });
+
+    it('should decay use counts once per elapsed interval using the injected clock', () => {
+      let time = 0;
+      const cache = new LFUCache<string, number>({ capacity: 2, decayIntervalMs: 100, now: () => time });
+      cache.set('old', 1);
+      for (let i = 0; i < 7; i += 1) {
+        cache.get('old'); // 8 uses
+      }
+
+      time = 99;
+      expect(cache.getFrequency('old')).toBe(8);
+
+      time = 250;
+      expect(cache.getFrequency('old')).toBe(2);
+
+      // Once popular entries have cooled off, new ones can displace them
+      time = 300;
+      cache.set('new', 2);
+      cache.get('new');
+      cache.set('newer', 3);
+      expect(cache.has('old')).toBe(false);
+      expect(cache.has('new')).toBe(true);
+
+      // Long idle periods are skipped in one step once every count is 1
+      time = 1e12;
+      expect(cache.getFrequency('new')).toBe(1);
+      time += 100;
+      expect(cache.getFrequency('newer')).toBe(1);
+      cache.get('newer');
+      time += 99;
+      expect(cache.getFrequency('newer')).toBe(2);
+    });
+  });
+});
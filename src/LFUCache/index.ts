@@ -0,0 +1,397 @@
+import { DoubleLinkedList, type DoubleLinkedListNode, getNextNode, getNodeValue } from '../DoubleLinkedList/index.js';
+
+/**
+ * Options for creating an {@link LFUCache}.
+ *
+ * @typeParam KeyT - The type of keys stored in the cache
+ * @typeParam ValueT - The type of values stored in the cache
+ */
+export interface LFUCacheOptions<KeyT, ValueT> {
+  /** The maximum number of entries kept in the cache.  Must be a positive integer. */
+  capacity: number;
+  /**
+   * How often, in milliseconds, every use count is halved, so entries that were popular long ago can eventually be evicted.
+   * By default use counts never decay.
+   */
+  decayIntervalMs?: number;
+  /** The clock used for decay calculations.  Defaults to `Date.now`, but can be replaced to make tests deterministic. */
+  now?: () => number;
+  /** Called whenever an entry is evicted to make room for a new one.  Not called for explicit `delete` or `clear` calls. */
+  onEvict?: (key: KeyT, value: ValueT) => void;
+}
+
+interface LFUCacheEntry<KeyT, ValueT> {
+  readonly key: KeyT;
+  value: ValueT;
+  /** The node of the frequency bucket whose list holds this entry */
+  bucket: DoubleLinkedListNode<FrequencyBucket<KeyT, ValueT>>;
+}
+
+interface FrequencyBucket<KeyT, ValueT> {
+  frequency: number;
+  /** The entries used `frequency` times, from least to most recently used */
+  readonly entries: DoubleLinkedList<LFUCacheEntry<KeyT, ValueT>>;
+}
+
+/**
+ * A least-frequently-used cache with O(1) operations, backed by a `DoubleLinkedList` of frequency buckets that each hold a
+ * `DoubleLinkedList` of entries.
+ *
+ * Buckets are kept in increasing order of use count, and only counts that some entry currently has get a bucket.  Using an
+ * entry moves its node into the bucket for the next count, creating that bucket right after the current one if needed, so no
+ * searching is ever required.  When the cache is full, the least recently used entry of the lowest bucket is evicted.
+ * Optionally, use counts decay over time so that entries that were only popular in the past don't stay forever.
+ *
+ * @typeParam KeyT - The type of keys stored in the cache
+ * @typeParam ValueT - The type of values stored in the cache
+ *
+ * @example Basic usage
+ * ```typescript
+ * const cache = new LFUCache<string, number>({ capacity: 2 });
+ * cache.set('a', 1);
+ * cache.set('b', 2);
+ * cache.get('a');    // 'a' has now been used twice
+ * cache.set('c', 3); // Evicts 'b', which was only used once
+ * console.log([...cache.keys()]); // ['a', 'c']
+ * ```
+ *
+ * @example Decay with a custom clock
+ * ```typescript
+ * let time = 0;
+ * const cache = new LFUCache<string, number>({ capacity: 100, decayIntervalMs: 60_000, now: () => time });
+ * cache.set('a', 1);
+ * cache.get('a');
+ * console.log(cache.getFrequency('a')); // 2
+ * time = 60_000;
+ * console.log(cache.getFrequency('a')); // 1
+ * ```
+ */
+export class LFUCache<KeyT, ValueT> {
+  private readonly capacity: number;
+  private readonly decayIntervalMs: number | undefined;
+  private readonly now: () => number;
+  private readonly onEvict: ((key: KeyT, value: ValueT) => void) | undefined;
+
+  private readonly buckets = new DoubleLinkedList<FrequencyBucket<KeyT, ValueT>>();
+  private readonly nodesByKey = new Map<KeyT, DoubleLinkedListNode<LFUCacheEntry<KeyT, ValueT>>>();
+  private lastDecayAt: number;
+
+  /**
+   * Creates a new, empty LFUCache.
+   *
+   * @param options - The cache options
+   * @throws `RangeError` if `capacity` isn't a positive integer, or `decayIntervalMs` is given and isn't a positive finite number
+   *
+   * @example
+   * ```typescript
+   * const cache = new LFUCache<string, Response>({
+   *   capacity: 1000,
+   *   decayIntervalMs: 5 * 60_000,
+   *   onEvict: (url) => console.log(`evicted ${url}`)
+   * });
+   * ```
+   */
+  public constructor({ capacity, decayIntervalMs, now = Date.now, onEvict }: LFUCacheOptions<KeyT, ValueT>) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new RangeError(`capacity must be a positive integer, got ${capacity}`);
+    }
+    if (decayIntervalMs !== undefined && !(Number.isFinite(decayIntervalMs) && decayIntervalMs > 0)) {
+      throw new RangeError(`decayIntervalMs must be a positive finite number, got ${decayIntervalMs}`);
+    }
+
+    this.capacity = capacity;
+    this.decayIntervalMs = decayIntervalMs;
+    this.now = now;
+    this.onEvict = onEvict;
+    this.lastDecayAt = decayIntervalMs !== undefined ? now() : 0;
+  }
+
+  /**
+   * Gets the maximum number of entries kept in the cache.
+   *
+   * @returns The capacity
+   * @remarks Time complexity: O(1)
+   */
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Gets the number of entries in the cache.
+   *
+   * @returns The number of entries in the cache
+   * @remarks Time complexity: O(1)
+   */
+  public getSize(): number {
+    return this.nodesByKey.size;
+  }
+
+  /**
+   * Gets the value for a key and counts it as a use of the entry.
+   *
+   * @param key - The key to look up
+   * @returns The value, or `undefined` if the key isn't present
+   * @remarks Time complexity: O(1), or O(n) when use counts are due to decay
+   */
+  public get(key: KeyT): ValueT | undefined {
+    this.decayIfDue();
+
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return undefined;
+    }
+
+    this.touch(node);
+    return getNodeValue(node).value;
+  }
+
+  /**
+   * Gets the value for a key without counting it as a use.
+   *
+   * @param key - The key to look up
+   * @returns The value, or `undefined` if the key isn't present
+   * @remarks Time complexity: O(1)
+   */
+  public peek(key: KeyT): ValueT | undefined {
+    return getNodeValue(this.nodesByKey.get(key))?.value;
+  }
+
+  /**
+   * Checks whether the cache holds an entry for a key, without counting it as a use.
+   *
+   * @param key - The key to look up
+   * @returns `true` if the key is present, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public has(key: KeyT): boolean {
+    return this.nodesByKey.has(key);
+  }
+
+  /**
+   * Gets the number of times an entry has been used, after any decay.  Setting a new key counts as its first use.
+   *
+   * @param key - The key to look up
+   * @returns The use count, or `undefined` if the key isn't present
+   * @remarks Time complexity: O(1), or O(n) when use counts are due to decay
+   */
+  public getFrequency(key: KeyT): number | undefined {
+    this.decayIfDue();
+
+    const node = this.nodesByKey.get(key);
+    return node !== undefined ? getNodeValue(getNodeValue(node).bucket).frequency : undefined;
+  }
+
+  /**
+   * Sets the value for a key.  Updating an existing key counts as a use of the entry.  If the cache is full, the least
+   * frequently used entry is evicted first, with ties going to the least recently used one.
+   *
+   * @param key - The key to set
+   * @param value - The value to store
+   * @returns This cache, for chaining
+   * @remarks Time complexity: O(1), or O(n) when use counts are due to decay
+   *
+   * @example
+   * ```typescript
+   * const cache = new LFUCache<string, number>({ capacity: 3 });
+   * cache.set('a', 1).set('b', 2);
+   * ```
+   */
+  public set(key: KeyT, value: ValueT): this {
+    this.decayIfDue();
+
+    const existingNode = this.nodesByKey.get(key);
+    if (existingNode !== undefined) {
+      getNodeValue(existingNode).value = value;
+      this.touch(existingNode);
+      return this;
+    }
+
+    if (this.nodesByKey.size >= this.capacity) {
+      this.evictLeastFrequentlyUsed();
+    }
+
+    // New entries start with a count of 1, which is always the lowest bucket
+    let bucket = this.buckets.getHead();
+    if (bucket === undefined || getNodeValue(bucket).frequency !== 1) {
+      bucket = this.buckets.prepend({ frequency: 1, entries: new DoubleLinkedList() });
+    }
+    this.nodesByKey.set(key, getNodeValue(bucket).entries.append({ key, value, bucket }));
+    return this;
+  }
+
+  /**
+   * Removes the entry for a key.
+   *
+   * @param key - The key to remove
+   * @returns `true` if an entry was removed, `false` if the key wasn't present
+   * @remarks Time complexity: O(1)
+   */
+  public delete(key: KeyT): boolean {
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.removeEntry(node);
+    return true;
+  }
+
+  /**
+   * Removes all entries from the cache, without calling `onEvict`.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public clear(): void {
+    this.buckets.clear();
+    this.nodesByKey.clear();
+  }
+
+  /**
+   * Halves every use count (rounding up, so counts never drop below 1) right away, whether or not `decayIntervalMs` is set.
+   * Entries whose counts become equal keep their relative order, with entries from the lower count first in line for
+   * eviction.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public decay(): void {
+    let previous: DoubleLinkedListNode<FrequencyBucket<KeyT, ValueT>> | undefined;
+    let cursor = this.buckets.getHead();
+    while (cursor !== undefined) {
+      const next = getNextNode(cursor);
+      const bucket = getNodeValue(cursor);
+      const frequency = Math.ceil(bucket.frequency / 2);
+
+      if (previous !== undefined && getNodeValue(previous).frequency === frequency) {
+        // Merge into the previous bucket, behind its own entries
+        for (const entry of bucket.entries) {
+          entry.bucket = previous;
+        }
+        getNodeValue(previous).entries.appendList(bucket.entries);
+        this.buckets.remove(cursor);
+      } else {
+        bucket.frequency = frequency;
+        previous = cursor;
+      }
+
+      cursor = next;
+    }
+  }
+
+  /**
+   * Iterates over the entries from most to least valuable, which is the reverse of eviction order, without counting any uses.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   *
+   * @example
+   * ```typescript
+   * const cache = new LFUCache<string, number>({ capacity: 3 });
+   * cache.set('a', 1).set('b', 2).get('a');
+   * console.log([...cache.entries()]); // [['a', 1], ['b', 2]]
+   * ```
+   */
+  public *entries(): IterableIterator<[KeyT, ValueT]> {
+    for (const entry of this.entriesByValue()) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Iterates over the keys from most to least valuable.
+   *
+   * @returns An iterator of keys
+   */
+  public *keys(): IterableIterator<KeyT> {
+    for (const entry of this.entriesByValue()) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Iterates over the values from most to least valuable.
+   *
+   * @returns An iterator of values
+   */
+  public *values(): IterableIterator<ValueT> {
+    for (const entry of this.entriesByValue()) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Makes the cache iterable, yielding `[key, value]` pairs from most to least valuable.
+   * Equivalent to `entries()`.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   */
+  public [Symbol.iterator](): IterableIterator<[KeyT, ValueT]> {
+    return this.entries();
+  }
+
+  // Private Methods
+
+  /** Moves an entry into the bucket for the next use count, creating that bucket if needed, in O(1) */
+  private touch(node: DoubleLinkedListNode<LFUCacheEntry<KeyT, ValueT>>): void {
+    const entry = getNodeValue(node);
+    const bucket = entry.bucket;
+    const frequency = getNodeValue(bucket).frequency + 1;
+
+    let nextBucket = getNextNode(bucket);
+    if (nextBucket === undefined || getNodeValue(nextBucket).frequency !== frequency) {
+      nextBucket = this.buckets.insertAfterNode(bucket, { frequency, entries: new DoubleLinkedList() })!;
+    }
+
+    // The node itself moves, so the reference in nodesByKey stays valid
+    getNodeValue(nextBucket).entries.adoptNode(node);
+    entry.bucket = nextBucket;
+    this.removeBucketIfEmpty(bucket);
+  }
+
+  private *entriesByValue(): Generator<LFUCacheEntry<KeyT, ValueT>> {
+    for (const bucket of this.buckets.reversed()) {
+      yield* bucket.entries.reversed();
+    }
+  }
+
+  private evictLeastFrequentlyUsed(): void {
+    const node = getNodeValue(this.buckets.getHead())?.entries.getHead();
+    if (node === undefined) {
+      return;
+    }
+
+    const entry = getNodeValue(node);
+    this.removeEntry(node);
+    this.onEvict?.(entry.key, entry.value);
+  }
+
+  private removeEntry(node: DoubleLinkedListNode<LFUCacheEntry<KeyT, ValueT>>): void {
+    const entry = getNodeValue(node);
+    getNodeValue(entry.bucket).entries.remove(node);
+    this.nodesByKey.delete(entry.key);
+    this.removeBucketIfEmpty(entry.bucket);
+  }
+
+  private removeBucketIfEmpty(bucket: DoubleLinkedListNode<FrequencyBucket<KeyT, ValueT>>): void {
+    if (getNodeValue(bucket).entries.isEmpty()) {
+      this.buckets.remove(bucket);
+    }
+  }
+
+  /** Applies one decay for every full interval that has passed since the last one */
+  private decayIfDue(): void {
+    if (this.decayIntervalMs === undefined) {
+      return;
+    }
+
+    const now = this.now();
+    while (now - this.lastDecayAt >= this.decayIntervalMs) {
+      this.lastDecayAt += this.decayIntervalMs;
+      this.decay();
+
+      const head = getNodeValue(this.buckets.getHead());
+      if (head === undefined || (this.buckets.getLength() === 1 && head.frequency === 1)) {
+        // Every count is already 1, so further decays can't change anything -- skip the remaining intervals
+        this.lastDecayAt = now - ((now - this.lastDecayAt) % this.decayIntervalMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { LRUCache, type LRUCacheEvictionReason } from '../index.js';
+
+describe('LRUCache', () => {
+  it('should reject invalid capacities', () => {
+    expect(() => new LRUCache<string, number>({ capacity: 0 })).toThrow(RangeError);
+    expect(() => new LRUCache<string, number>({ capacity: 1.5 })).toThrow(RangeError);
+    expect(new LRUCache<string, number>({ capacity: 3 }).getCapacity()).toBe(3);
+  });
+
+  it('should reject invalid time-to-live values', () => {
+    for (const ttlMs of [0, -1, NaN, Infinity]) {
+      expect(() => new LRUCache<string, number>({ capacity: 1, ttlMs })).toThrow(RangeError);
+      expect(() => new LRUCache<string, number>({ capacity: 1 }).set('a', 1, { ttlMs })).toThrow(RangeError);
+    }
+    expect(new LRUCache<string, number>({ capacity: 1, ttlMs: 0.5 }).set('a', 1, { ttlMs: 10 }).has('a')).toBe(true);
+  });
+
+  it('get, set, has and delete should work', () => {
+    const cache = new LRUCache<string, number>({ capacity: 3 });
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.has('a')).toBe(false);
+
+    cache.set('a', 1).set('b', 2);
+    expect(cache.getSize()).toBe(2);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.has('b')).toBe(true);
+
+    cache.set('a', 10);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.getSize()).toBe(2);
+
+    expect(cache.delete('a')).toBe(true);
+    expect(cache.delete('a')).toBe(false);
+    expect(cache.has('a')).toBe(false);
+    expect(cache.getSize()).toBe(1);
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const evicted: Array<[string, number, LRUCacheEvictionReason]> = [];
+    const cache = new LRUCache<string, number>({ capacity: 3, onEvict: (key, value, reason) => evicted.push([key, value, reason]) });
+
+    cache.set('a', 1).set('b', 2).set('c', 3);
+    expect(cache.get('a')).toBe(1);
+
+    cache.set('d', 4);
+    expect(cache.has('b')).toBe(false);
+    expect(evicted).toEqual([['b', 2, 'capacity']]);
+    expect([...cache.keys()]).toEqual(['d', 'a', 'c']);
+
+    // Updating an existing key marks it as most recently used
+    cache.set('c', 30);
+    cache.set('e', 5);
+    expect(evicted).toEqual([
+      ['b', 2, 'capacity'],
+      ['a', 1, 'capacity']
+    ]);
+    expect([...cache]).toEqual([
+      ['e', 5],
+      ['c', 30],
+      ['d', 4]
+    ]);
+  });
+
+  it('peek should not change recency', () => {
+    const cache = new LRUCache<string, number>({ capacity: 2 });
+    cache.set('a', 1).set('b', 2);
+    expect(cache.peek('a')).toBe(1);
+    expect(cache.peek('z')).toBeUndefined();
+
+    cache.set('c', 3);
+    expect(cache.has('a')).toBe(false);
+    expect([...cache.keys()]).toEqual(['c', 'b']);
+  });
+
+  it('should iterate from most to least recently used', () => {
+    const cache = new LRUCache<string, number>({ capacity: 5 });
+    cache.set('a', 1).set('b', 2).set('c', 3);
+    cache.get('a');
+
+    expect([...cache.keys()]).toEqual(['a', 'c', 'b']);
+    expect([...cache.values()]).toEqual([1, 3, 2]);
+    expect([...cache.entries()]).toEqual([
+      ['a', 1],
+      ['c', 3],
+      ['b', 2]
+    ]);
+  });
+
+  it('clear should remove everything without calling onEvict', () => {
+    const evicted: string[] = [];
+    const cache = new LRUCache<string, number>({ capacity: 2, onEvict: (key) => evicted.push(key) });
+    cache.set('a', 1).set('b', 2);
+    cache.clear();
+    expect(cache.getSize()).toBe(0);
+    expect(cache.get('a')).toBeUndefined();
+    expect(evicted).toEqual([]);
+  });
+
+  describe('time-to-live', () => {
+    it('should expire entries using the injected clock', () => {
+      let time = 0;
+      const evicted: Array<[string, LRUCacheEvictionReason]> = [];
+      const cache = new LRUCache<string, number>({
+        capacity: 5,
+        ttlMs: 100,
+        now: () => time,
+        onEvict: (key, _value, reason) => evicted.push([key, reason])
+      });
+
+      cache.set('a', 1);
+      cache.set('b', 2, { ttlMs: 500 });
+
+      time = 99;
+      expect(cache.get('a')).toBe(1);
+
+      time = 100;
+      expect(cache.has('a')).toBe(false);
+      expect(cache.peek('b')).toBe(2);
+      expect(evicted).toEqual([['a', 'expired']]);
+      expect(cache.getSize()).toBe(1);
+
+      time = 500;
+      expect(cache.get('b')).toBeUndefined();
+      expect(evicted).toEqual([
+        ['a', 'expired'],
+        ['b', 'expired']
+      ]);
+    });
+
+    it('setting an entry again should refresh its expiration', () => {
+      let time = 0;
+      const cache = new LRUCache<string, number>({ capacity: 5, ttlMs: 100, now: () => time });
+      cache.set('a', 1);
+      time = 50;
+      cache.set('a', 2);
+      time = 120;
+      expect(cache.get('a')).toBe(2);
+    });
+
+    it('iteration should skip expired entries and prune should remove them', () => {
+      let time = 0;
+      const evicted: Array<[string, number, LRUCacheEvictionReason]> = [];
+      const cache = new LRUCache<string, number>({ capacity: 5, now: () => time, onEvict: (...args) => evicted.push(args) });
+      cache.set('a', 1, { ttlMs: 10 });
+      cache.set('b', 2);
+      cache.set('c', 3, { ttlMs: 20 });
+
+      time = 15;
+      expect([...cache.keys()]).toEqual(['c', 'b']);
+      expect(cache.getSize()).toBe(3);
+
+      expect(cache.prune()).toBe(1);
+      expect(cache.getSize()).toBe(2);
+      expect(evicted).toEqual([['a', 1, 'expired']]);
+      expect(cache.delete('a')).toBe(false);
+    });
+
+    it('should report expired entries evicted for capacity as expired', () => {
+      let time = 0;
+      const evicted: Array<[string, number, LRUCacheEvictionReason]> = [];
+      const cache = new LRUCache<string, number>({ capacity: 1, ttlMs: 10, now: () => time, onEvict: (...args) => evicted.push(args) });
+      cache.set('a', 1);
+      time = 10;
+      cache.set('b', 2);
+      expect(evicted).toEqual([['a', 1, 'expired']]);
+      expect(cache.get('b')).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { DoubleLinkedList, type DoubleLinkedListNode, getNextNode, getNodeValue } from '../DoubleLinkedList/index.js';
+
+/**
+ * The reason an entry was evicted from an {@link LRUCache}.
+ *
+ * - `'capacity'`: The entry was the least recently used one when a new entry needed room
+ * - `'expired'`: The entry's time-to-live elapsed
+ */
+export type LRUCacheEvictionReason = 'capacity' | 'expired';
+
+/**
+ * Options for creating an {@link LRUCache}.
+ *
+ * @typeParam KeyT - The type of keys stored in the cache
+ * @typeParam ValueT - The type of values stored in the cache
+ */
+export interface LRUCacheOptions<KeyT, ValueT> {
+  /** The maximum number of entries kept in the cache.  Must be a positive integer. */
+  capacity: number;
+  /** The default time-to-live, in milliseconds, applied to entries set without an explicit `ttlMs`.  By default entries never expire. */
+  ttlMs?: number;
+  /** The clock used for time-to-live calculations.  Defaults to `Date.now`, but can be replaced to make tests deterministic. */
+  now?: () => number;
+  /** Called whenever an entry is evicted because of capacity or expiration.  Not called for explicit `delete` or `clear` calls. */
+  onEvict?: (key: KeyT, value: ValueT, reason: LRUCacheEvictionReason) => void;
+}
+
+/**
+ * Options for a single {@link LRUCache.set} call.
+ */
+export interface LRUCacheSetOptions {
+  /** The time-to-live, in milliseconds, for this entry.  Overrides the cache's default `ttlMs`. */
+  ttlMs?: number;
+}
+
+interface LRUCacheEntry<KeyT, ValueT> {
+  key: KeyT;
+  value: ValueT;
+  expiresAt: number | undefined;
+}
+
+/**
+ * A least-recently-used cache backed by a `DoubleLinkedList` and a `Map` of keys to nodes.
+ *
+ * Entries are kept in most- to least-recently used order.  Reading or writing an entry relinks its existing node to the front
+ * of the list, and the least recently used entry is evicted from the back when the capacity is exceeded.  Entries may
+ * optionally expire after a time-to-live, which is measured with an injectable clock.
+ *
+ * @typeParam KeyT - The type of keys stored in the cache
+ * @typeParam ValueT - The type of values stored in the cache
+ *
+ * @example Basic usage
+ * ```typescript
+ * const cache = new LRUCache<string, number>({ capacity: 2 });
+ * cache.set('a', 1);
+ * cache.set('b', 2);
+ * cache.get('a');    // 1 - 'a' is now the most recently used
+ * cache.set('c', 3); // Evicts 'b'
+ * console.log([...cache.keys()]); // ['c', 'a']
+ * ```
+ *
+ * @example Time-to-live with a custom clock
+ * ```typescript
+ * let time = 0;
+ * const cache = new LRUCache<string, number>({ capacity: 10, ttlMs: 1000, now: () => time });
+ * cache.set('a', 1);
+ * time = 1000;
+ * console.log(cache.get('a')); // undefined (expired)
+ * ```
+ */
+export class LRUCache<KeyT, ValueT> {
+  private readonly capacity: number;
+  private readonly ttlMs: number | undefined;
+  private readonly now: () => number;
+  private readonly onEvict: ((key: KeyT, value: ValueT, reason: LRUCacheEvictionReason) => void) | undefined;
+
+  private readonly list = new DoubleLinkedList<LRUCacheEntry<KeyT, ValueT>>();
+  private readonly nodesByKey = new Map<KeyT, DoubleLinkedListNode<LRUCacheEntry<KeyT, ValueT>>>();
+
+  /**
+   * Creates a new, empty LRUCache.
+   *
+   * @param options - The cache options
+   * @throws `RangeError` if `capacity` isn't a positive integer, or `ttlMs` is given and isn't a positive finite number
+   *
+   * @example
+   * ```typescript
+   * const cache = new LRUCache<string, User>({
+   *   capacity: 100,
+   *   ttlMs: 60_000,
+   *   onEvict: (key, user, reason) => console.log(`evicted ${key} (${reason})`)
+   * });
+   * ```
+   */
+  public constructor({ capacity, ttlMs, now = Date.now, onEvict }: LRUCacheOptions<KeyT, ValueT>) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new RangeError(`capacity must be a positive integer, got ${capacity}`);
+    }
+    assertValidTtl(ttlMs);
+
+    this.capacity = capacity;
+    this.ttlMs = ttlMs;
+    this.now = now;
+    this.onEvict = onEvict;
+  }
+
+  /**
+   * Gets the maximum number of entries kept in the cache.
+   *
+   * @returns The capacity
+   * @remarks Time complexity: O(1)
+   */
+  public getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Gets the number of entries in the cache.
+   * Expired entries that haven't been accessed or pruned yet are included.
+   *
+   * @returns The number of entries in the cache
+   * @remarks Time complexity: O(1)
+   */
+  public getSize(): number {
+    return this.list.getLength();
+  }
+
+  /**
+   * Gets the value for a key and marks the entry as the most recently used.
+   *
+   * @param key - The key to look up
+   * @returns The value, or `undefined` if the key isn't present or has expired
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const cache = new LRUCache<string, number>({ capacity: 3 });
+   * cache.set('a', 1);
+   * console.log(cache.get('a')); // 1
+   * console.log(cache.get('b')); // undefined
+   * ```
+   */
+  public get(key: KeyT): ValueT | undefined {
+    const node = this.getLiveNode(key);
+    if (node === undefined) {
+      return undefined;
+    }
+
+    this.list.moveToFront(node);
+    return getNodeValue(node).value;
+  }
+
+  /**
+   * Gets the value for a key without changing its recency.
+   *
+   * @param key - The key to look up
+   * @returns The value, or `undefined` if the key isn't present or has expired
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const cache = new LRUCache<string, number>({ capacity: 2 });
+   * cache.set('a', 1);
+   * cache.set('b', 2);
+   * cache.peek('a');   // 1 - 'a' is still the least recently used
+   * cache.set('c', 3); // Evicts 'a'
+   * ```
+   */
+  public peek(key: KeyT): ValueT | undefined {
+    return getNodeValue(this.getLiveNode(key))?.value;
+  }
+
+  /**
+   * Checks whether the cache holds an unexpired entry for a key, without changing its recency.
+   *
+   * @param key - The key to look up
+   * @returns `true` if the key is present and hasn't expired, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public has(key: KeyT): boolean {
+    return this.getLiveNode(key) !== undefined;
+  }
+
+  /**
+   * Sets the value for a key and marks the entry as the most recently used.
+   * If the cache is full, the least recently used entry is evicted first.
+   *
+   * @param key - The key to set
+   * @param value - The value to store
+   * @param options - Per-entry options, such as a time-to-live overriding the cache's default
+   * @returns This cache, for chaining
+   * @throws `RangeError` if `options.ttlMs` is given and isn't a positive finite number
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const cache = new LRUCache<string, number>({ capacity: 3 });
+   * cache.set('a', 1).set('b', 2, { ttlMs: 500 });
+   * ```
+   */
+  public set(key: KeyT, value: ValueT, options: LRUCacheSetOptions = {}): this {
+    assertValidTtl(options.ttlMs);
+    const ttlMs = options.ttlMs ?? this.ttlMs;
+    const expiresAt = ttlMs !== undefined ? this.now() + ttlMs : undefined;
+
+    const existingNode = this.nodesByKey.get(key);
+    if (existingNode !== undefined) {
+      const entry = getNodeValue(existingNode);
+      entry.value = value;
+      entry.expiresAt = expiresAt;
+      this.list.moveToFront(existingNode);
+      return this;
+    }
+
+    if (this.list.getLength() >= this.capacity) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    this.nodesByKey.set(key, this.list.prepend({ key, value, expiresAt }));
+    return this;
+  }
+
+  /**
+   * Removes the entry for a key.
+   *
+   * @param key - The key to remove
+   * @returns `true` if an entry was removed, `false` if the key wasn't present or had expired
+   * @remarks Time complexity: O(1)
+   */
+  public delete(key: KeyT): boolean {
+    const node = this.getLiveNode(key);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.list.remove(node);
+    this.nodesByKey.delete(key);
+    return true;
+  }
+
+  /**
+   * Removes all entries from the cache, without calling `onEvict`.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public clear(): void {
+    this.list.clear();
+    this.nodesByKey.clear();
+  }
+
+  /**
+   * Removes all expired entries, calling `onEvict` for each of them.
+   *
+   * @returns The number of entries removed
+   * @remarks Time complexity: O(n)
+   */
+  public prune(): number {
+    const now = this.now();
+    let numRemoved = 0;
+    let cursor = this.list.getHead();
+    while (cursor !== undefined) {
+      const next = getNextNode(cursor);
+      if (isExpired(getNodeValue(cursor), now)) {
+        this.expire(cursor);
+        numRemoved += 1;
+      }
+      cursor = next;
+    }
+    return numRemoved;
+  }
+
+  /**
+   * Iterates over the unexpired entries from most to least recently used, without changing their recency.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   *
+   * @example
+   * ```typescript
+   * const cache = new LRUCache<string, number>({ capacity: 3 });
+   * cache.set('a', 1).set('b', 2);
+   * console.log([...cache.entries()]); // [['b', 2], ['a', 1]]
+   * ```
+   */
+  public *entries(): IterableIterator<[KeyT, ValueT]> {
+    for (const entry of this.liveEntries()) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Iterates over the keys of the unexpired entries from most to least recently used.
+   *
+   * @returns An iterator of keys
+   */
+  public *keys(): IterableIterator<KeyT> {
+    for (const entry of this.liveEntries()) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Iterates over the values of the unexpired entries from most to least recently used.
+   *
+   * @returns An iterator of values
+   */
+  public *values(): IterableIterator<ValueT> {
+    for (const entry of this.liveEntries()) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Makes the cache iterable, yielding `[key, value]` pairs from most to least recently used.
+   * Equivalent to `entries()`.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   */
+  public [Symbol.iterator](): IterableIterator<[KeyT, ValueT]> {
+    return this.entries();
+  }
+
+  // Private Methods
+
+  /** Gets the node for a key, expiring it first if its time-to-live has elapsed */
+  private getLiveNode(key: KeyT): DoubleLinkedListNode<LRUCacheEntry<KeyT, ValueT>> | undefined {
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return undefined;
+    }
+
+    if (isExpired(getNodeValue(node), this.now())) {
+      this.expire(node);
+      return undefined;
+    }
+
+    return node;
+  }
+
+  private *liveEntries(): Generator<LRUCacheEntry<KeyT, ValueT>> {
+    const now = this.now();
+    let cursor = this.list.getHead();
+    while (cursor !== undefined) {
+      const entry = getNodeValue(cursor);
+      cursor = getNextNode(cursor);
+      if (!isExpired(entry, now)) {
+        yield entry;
+      }
+    }
+  }
+
+  private evictLeastRecentlyUsed(): void {
+    const tail = this.list.getTail();
+    if (tail === undefined) {
+      return;
+    }
+
+    const entry = getNodeValue(tail);
+    this.list.remove(tail);
+    this.nodesByKey.delete(entry.key);
+    this.onEvict?.(entry.key, entry.value, isExpired(entry, this.now()) ? 'expired' : 'capacity');
+  }
+
+  private expire(node: DoubleLinkedListNode<LRUCacheEntry<KeyT, ValueT>>): void {
+    const entry = getNodeValue(node);
+    this.list.remove(node);
+    this.nodesByKey.delete(entry.key);
+    this.onEvict?.(entry.key, entry.value, 'expired');
+  }
+}
+
+function isExpired(entry: LRUCacheEntry<unknown, unknown>, now: number): boolean {
+  return entry.expiresAt !== undefined && now >= entry.expiresAt;
+}
+
+function assertValidTtl(ttlMs: number | undefined): void {
+  if (ttlMs !== undefined && !(Number.isFinite(ttlMs) && ttlMs > 0)) {
+    throw new RangeError(`ttlMs must be a positive finite number, got ${ttlMs}`);
+  }
+}
@@ -0,0 +1,181 @@
+import { LinkedMap } from '../index.js';
+
+describe('LinkedMap', () => {
+  it('should behave like a Map in insertion order', () => {
+    const map = new LinkedMap<string, number>([
+      ['a', 1],
+      ['b', 2]
+    ]);
+    expect(map).toBeInstanceOf(LinkedMap);
+    expect(map.getOrder()).toBe('insertion');
+    expect(map.size).toBe(2);
+    expect(Object.prototype.toString.call(map)).toBe('[object LinkedMap]');
+
+    expect(map.set('c', 3)).toBe(map);
+    expect(map.get('a')).toBe(1);
+    expect(map.get('z')).toBeUndefined();
+    expect(map.has('b')).toBe(true);
+    expect(map.has('z')).toBe(false);
+
+    // Updating an existing key keeps its position, and reading doesn't move anything
+    map.set('a', 10);
+    expect([...map]).toEqual([
+      ['a', 10],
+      ['b', 2],
+      ['c', 3]
+    ]);
+    expect([...map.keys()]).toEqual(['a', 'b', 'c']);
+    expect([...map.values()]).toEqual([10, 2, 3]);
+    expect([...map.entries()]).toEqual([...new Map(map)]);
+
+    expect(map.delete('b')).toBe(true);
+    expect(map.delete('b')).toBe(false);
+    expect([...map.keys()]).toEqual(['a', 'c']);
+
+    map.clear();
+    expect(map.size).toBe(0);
+    expect(map.get('a')).toBeUndefined();
+    expect([...map]).toEqual([]);
+  });
+
+  it('should move entries to the end on get and set in access order', () => {
+    const map = new LinkedMap(
+      [
+        ['a', 1],
+        ['b', 2],
+        ['c', 3]
+      ],
+      { order: 'access' }
+    );
+    expect(map.getOrder()).toBe('access');
+
+    map.get('a');
+    expect([...map.keys()]).toEqual(['b', 'c', 'a']);
+
+    map.set('b', 20);
+    expect([...map.keys()]).toEqual(['c', 'a', 'b']);
+
+    // has, iteration and forEach don't count as access
+    map.has('c');
+    map.forEach(() => undefined);
+    expect(map.firstEntry()).toEqual(['c', 3]);
+  });
+
+  it('should support firstEntry, lastEntry, pollFirst and pollLast', () => {
+    const map = new LinkedMap<string, number>();
+    expect(map.firstEntry()).toBeUndefined();
+    expect(map.lastEntry()).toBeUndefined();
+    expect(map.pollFirst()).toBeUndefined();
+    expect(map.pollLast()).toBeUndefined();
+
+    map.set('a', 1).set('b', 2).set('c', 3);
+    expect(map.firstEntry()).toEqual(['a', 1]);
+    expect(map.lastEntry()).toEqual(['c', 3]);
+    expect(map.size).toBe(3);
+
+    expect(map.pollFirst()).toEqual(['a', 1]);
+    expect(map.pollLast()).toEqual(['c', 3]);
+    expect(map.has('a')).toBe(false);
+    expect(map.has('c')).toBe(false);
+    expect([...map]).toEqual([['b', 2]]);
+
+    // Polled keys can be set again
+    map.set('a', 4);
+    expect(map.lastEntry()).toEqual(['a', 4]);
+  });
+
+  it('moveToEnd should reorder an entry without changing its value', () => {
+    const map = new LinkedMap<string, number>([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3]
+    ]);
+    expect(map.moveToEnd('a')).toBe(true);
+    expect(map.moveToEnd('z')).toBe(false);
+    expect([...map]).toEqual([
+      ['b', 2],
+      ['c', 3],
+      ['a', 1]
+    ]);
+  });
+
+  it('forEach should pass (value, key, map) and thisArg', () => {
+    const map = new LinkedMap<string, number>([
+      ['a', 1],
+      ['b', 2]
+    ]);
+    const calls: Array<[number, string]> = [];
+    const context = { name: 'context' };
+    map.forEach(function (this: unknown, value, key, m) {
+      expect(this).toBe(context);
+      expect(m).toBe(map);
+      calls.push([value, key]);
+    }, context);
+    expect(calls).toEqual([
+      [1, 'a'],
+      [2, 'b']
+    ]);
+  });
+
+  it('should follow Map rules when modified during iteration', () => {
+    const map = new LinkedMap<string, number>([
+      ['a', 1],
+      ['b', 2],
+      ['c', 3]
+    ]);
+    const visited: string[] = [];
+    for (const [key] of map) {
+      visited.push(key);
+      if (key === 'a') {
+        map.delete('a');
+        map.delete('b');
+        map.set('d', 4);
+      }
+    }
+    expect(visited).toEqual(['a', 'c', 'd']);
+  });
+
+  it('should not revisit entries moved by an access during iteration in access order', () => {
+    const map = new LinkedMap<string, number>(
+      [
+        ['a', 1],
+        ['b', 2],
+        ['c', 3]
+      ],
+      { order: 'access' }
+    );
+    const visited: string[] = [];
+    for (const [key] of map) {
+      visited.push(key);
+      map.get(key);
+    }
+    expect(visited).toEqual(['a', 'b', 'c']);
+
+    const seen: string[] = [];
+    map.forEach((value, key) => {
+      seen.push(key);
+      map.set(key, value * 10);
+      if (key === 'a') {
+        map.get('c'); // Moved before it's reached -- skipped
+        map.set('d', 4); // New keys are still visited
+      }
+    });
+    expect(seen).toEqual(['a', 'b', 'd']);
+    expect([...map.keys()]).toEqual(['a', 'c', 'b', 'd']);
+    expect([...map.values()]).toEqual([10, 3, 20, 40]);
+  });
+
+  it('should be usable where a Map is expected', () => {
+    const countWords = (words: string[], counts: Map<string, number>) => {
+      for (const word of words) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+      return counts;
+    };
+    const counts = countWords(['b', 'a', 'b'], new LinkedMap());
+    expect([...counts]).toEqual([
+      ['b', 2],
+      ['a', 1]
+    ]);
+  });
+});
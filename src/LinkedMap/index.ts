@@ -0,0 +1,352 @@
+import { DoubleLinkedList, type DoubleLinkedListNode, getNodeValue } from '../DoubleLinkedList/index.js';
+
+/**
+ * The order in which a {@link LinkedMap} keeps its entries.
+ *
+ * - `'insertion'`: Entries stay in the order their keys were first set, like a `Map`
+ * - `'access'`: Reading or writing an entry moves it to the end, so entries run from least to most recently used
+ */
+export type LinkedMapOrder = 'insertion' | 'access';
+
+/**
+ * Options for creating a {@link LinkedMap}.
+ */
+export interface LinkedMapOptions {
+  /** The order in which entries are kept.  Defaults to `'insertion'`. */
+  order?: LinkedMapOrder;
+}
+
+interface LinkedMapEntry<KeyT, ValueT> {
+  readonly key: KeyT;
+  value: ValueT;
+  /** The map's `accessCount` when `get` or `set` last moved the entry to the end in access order, or 0 if never */
+  accessedAt: number;
+}
+
+/**
+ * A `Map` that keeps its entries in a `DoubleLinkedList`, so they can be reordered and removed from either end in O(1).
+ *
+ * `LinkedMap` implements the full `Map` interface and can be used anywhere a `Map` is expected.  Entries are kept in
+ * insertion order by default, or in access order, where every `get` or `set` moves the entry to the end.  Either way,
+ * `moveToEnd` reorders an entry explicitly, and `pollFirst` and `pollLast` remove entries from the ends.  Modifying the map
+ * while iterating over it follows the same rules as `Map`, with one exception: in access order, an entry that `get` or
+ * `set` moves to the end during an iteration isn't visited by that iteration again, or at all if it hadn't been reached
+ * yet.  Otherwise reading every entry in a loop would keep moving entries ahead of the loop, and it would never finish.
+ *
+ * @typeParam KeyT - The type of keys stored in the map
+ * @typeParam ValueT - The type of values stored in the map
+ *
+ * @example A request deduplication window
+ * ```typescript
+ * const recent = new LinkedMap<string, number>();
+ * function isDuplicate(requestId: string, now: number): boolean {
+ *   // Drop requests older than a minute from the front
+ *   while (recent.size > 0 && recent.firstEntry()![1] < now - 60_000) {
+ *     recent.pollFirst();
+ *   }
+ *   if (recent.has(requestId)) {
+ *     return true;
+ *   }
+ *   recent.set(requestId, now);
+ *   return false;
+ * }
+ * ```
+ *
+ * @example Access order
+ * ```typescript
+ * const map = new LinkedMap([['a', 1], ['b', 2], ['c', 3]], { order: 'access' });
+ * map.get('a');
+ * console.log([...map.keys()]); // ['b', 'c', 'a']
+ * ```
+ */
+export class LinkedMap<KeyT, ValueT> implements Map<KeyT, ValueT> {
+  public readonly [Symbol.toStringTag] = 'LinkedMap';
+
+  private readonly isAccessOrder: boolean;
+  private readonly list = new DoubleLinkedList<LinkedMapEntry<KeyT, ValueT>>();
+  private readonly nodesByKey = new Map<KeyT, DoubleLinkedListNode<LinkedMapEntry<KeyT, ValueT>>>();
+  /** Counts the moves made by `get` and `set` in access order, so iterations can tell which entries moved after they began */
+  private accessCount = 0;
+
+  /**
+   * Creates a new LinkedMap with optional initial entries.
+   *
+   * @param entries - Initial `[key, value]` pairs, set in order
+   * @param options - Options such as the order in which entries are kept
+   *
+   * @example
+   * ```typescript
+   * const map = new LinkedMap<string, number>();
+   * const lru = new LinkedMap<string, number>(undefined, { order: 'access' });
+   * ```
+   */
+  public constructor(entries?: Iterable<readonly [KeyT, ValueT]>, { order = 'insertion' }: LinkedMapOptions = {}) {
+    this.isAccessOrder = order === 'access';
+
+    if (entries !== undefined) {
+      for (const [key, value] of entries) {
+        this.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * The number of entries in the map.
+   *
+   * @remarks Time complexity: O(1)
+   */
+  public get size(): number {
+    return this.list.getLength();
+  }
+
+  /**
+   * Gets the order in which entries are kept.
+   *
+   * @returns `'insertion'` or `'access'`
+   * @remarks Time complexity: O(1)
+   */
+  public getOrder(): LinkedMapOrder {
+    return this.isAccessOrder ? 'access' : 'insertion';
+  }
+
+  /**
+   * Gets the value for a key.  In access order, this also moves the entry to the end.
+   *
+   * @param key - The key to look up
+   * @returns The value, or `undefined` if the key isn't present
+   * @remarks Time complexity: O(1)
+   */
+  public get(key: KeyT): ValueT | undefined {
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return undefined;
+    }
+
+    if (this.isAccessOrder) {
+      this.moveAccessed(node);
+    }
+    return getNodeValue(node).value;
+  }
+
+  /**
+   * Checks whether the map has an entry for a key.  This never changes the order of entries.
+   *
+   * @param key - The key to look up
+   * @returns `true` if the key is present, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public has(key: KeyT): boolean {
+    return this.nodesByKey.has(key);
+  }
+
+  /**
+   * Sets the value for a key.  New keys are added at the end.  Existing keys keep their position in insertion order, and
+   * move to the end in access order.
+   *
+   * @param key - The key to set
+   * @param value - The value to store
+   * @returns This map, for chaining
+   * @remarks Time complexity: O(1)
+   */
+  public set(key: KeyT, value: ValueT): this {
+    const existingNode = this.nodesByKey.get(key);
+    if (existingNode !== undefined) {
+      getNodeValue(existingNode).value = value;
+      if (this.isAccessOrder) {
+        this.moveAccessed(existingNode);
+      }
+      return this;
+    }
+
+    this.nodesByKey.set(key, this.list.append({ key, value, accessedAt: 0 }));
+    return this;
+  }
+
+  /**
+   * Removes the entry for a key.
+   *
+   * @param key - The key to remove
+   * @returns `true` if an entry was removed, `false` if the key wasn't present
+   * @remarks Time complexity: O(1)
+   */
+  public delete(key: KeyT): boolean {
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.list.remove(node);
+    this.nodesByKey.delete(key);
+    return true;
+  }
+
+  /**
+   * Removes all entries from the map.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public clear(): void {
+    this.list.clear();
+    this.nodesByKey.clear();
+  }
+
+  /**
+   * Gets the first entry without removing it or changing its position.
+   *
+   * @returns The first `[key, value]` pair, or `undefined` if the map is empty
+   * @remarks Time complexity: O(1)
+   */
+  public firstEntry(): [KeyT, ValueT] | undefined {
+    return toPair(getNodeValue(this.list.getHead()));
+  }
+
+  /**
+   * Gets the last entry without removing it or changing its position.
+   *
+   * @returns The last `[key, value]` pair, or `undefined` if the map is empty
+   * @remarks Time complexity: O(1)
+   */
+  public lastEntry(): [KeyT, ValueT] | undefined {
+    return toPair(getNodeValue(this.list.getTail()));
+  }
+
+  /**
+   * Removes and returns the first entry.
+   *
+   * @returns The removed `[key, value]` pair, or `undefined` if the map is empty
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const map = new LinkedMap([['a', 1], ['b', 2]]);
+   * console.log(map.pollFirst()); // ['a', 1]
+   * console.log(map.size);        // 1
+   * ```
+   */
+  public pollFirst(): [KeyT, ValueT] | undefined {
+    return this.poll(this.list.getHead());
+  }
+
+  /**
+   * Removes and returns the last entry.
+   *
+   * @returns The removed `[key, value]` pair, or `undefined` if the map is empty
+   * @remarks Time complexity: O(1)
+   */
+  public pollLast(): [KeyT, ValueT] | undefined {
+    return this.poll(this.list.getTail());
+  }
+
+  /**
+   * Moves the entry for a key to the end, without changing its value.
+   *
+   * @param key - The key of the entry to move
+   * @returns `true` if the key is present, `false` otherwise
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const map = new LinkedMap([['a', 1], ['b', 2], ['c', 3]]);
+   * map.moveToEnd('a');
+   * console.log([...map.keys()]); // ['b', 'c', 'a']
+   * ```
+   */
+  public moveToEnd(key: KeyT): boolean {
+    const node = this.nodesByKey.get(key);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.list.moveToBack(node);
+    return true;
+  }
+
+  /**
+   * Executes a provided function once for each entry, in order.  This never changes the order of entries.
+   *
+   * @param callback - Function to execute for each entry. Receives (value, key, map) as parameters.
+   * @param thisArg - The value to use as `this` when calling `callback`
+   * @remarks Time complexity: O(n)
+   */
+  public forEach(callback: (value: ValueT, key: KeyT, map: LinkedMap<KeyT, ValueT>) => void, thisArg?: unknown): void {
+    for (const entry of this.liveEntries()) {
+      callback.call(thisArg, entry.value, entry.key, this);
+    }
+  }
+
+  /**
+   * Iterates over the entries in order.  This never changes the order of entries.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   */
+  public *entries(): MapIterator<[KeyT, ValueT]> {
+    for (const entry of this.liveEntries()) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Iterates over the keys in order.
+   *
+   * @returns An iterator of keys
+   */
+  public *keys(): MapIterator<KeyT> {
+    for (const entry of this.liveEntries()) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Iterates over the values in order.
+   *
+   * @returns An iterator of values
+   */
+  public *values(): MapIterator<ValueT> {
+    for (const entry of this.liveEntries()) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Makes the map iterable, yielding `[key, value]` pairs in order.
+   * Equivalent to `entries()`.
+   *
+   * @returns An iterator of `[key, value]` pairs
+   */
+  public [Symbol.iterator](): MapIterator<[KeyT, ValueT]> {
+    return this.entries();
+  }
+
+  // Private Methods
+
+  private moveAccessed(node: DoubleLinkedListNode<LinkedMapEntry<KeyT, ValueT>>): void {
+    this.accessCount += 1;
+    getNodeValue(node).accessedAt = this.accessCount;
+    this.list.moveToBack(node);
+  }
+
+  /** Iterates over the entries in order, skipping those moved by an access since the iteration began */
+  private *liveEntries(): Generator<LinkedMapEntry<KeyT, ValueT>> {
+    const accessCount = this.accessCount;
+    for (const entry of this.list) {
+      if (entry.accessedAt <= accessCount) {
+        yield entry;
+      }
+    }
+  }
+
+  private poll(node: DoubleLinkedListNode<LinkedMapEntry<KeyT, ValueT>> | undefined): [KeyT, ValueT] | undefined {
+    if (node === undefined) {
+      return undefined;
+    }
+
+    const entry = getNodeValue(node);
+    this.list.remove(node);
+    this.nodesByKey.delete(entry.key);
+    return [entry.key, entry.value];
+  }
+}
+
+function toPair<KeyT, ValueT>(entry: LinkedMapEntry<KeyT, ValueT> | undefined): [KeyT, ValueT] | undefined {
+  return entry !== undefined ? [entry.key, entry.value] : undefined;
+}
@@ -0,0 +1,159 @@
+import { LinkedMap } from '../../LinkedMap/index.js';
+import { LinkedSet, type LinkedSetLike } from '../index.js';
+
+describe('LinkedSet', () => {
+  it('should behave like a Set', () => {
+    const set = new LinkedSet(['b', 'a', 'b']);
+    expect(set.size).toBe(2);
+    expect(Object.prototype.toString.call(set)).toBe('[object LinkedSet]');
+    expect([...set]).toEqual(['b', 'a']);
+
+    expect(set.add('c')).toBe(set);
+    set.add('b'); // Already present -- keeps its position
+    expect([...set.values()]).toEqual(['b', 'a', 'c']);
+    expect([...set.keys()]).toEqual(['b', 'a', 'c']);
+    expect([...set.entries()]).toEqual([...new Set(set).entries()]);
+
+    expect(set.has('a')).toBe(true);
+    expect(set.has('z')).toBe(false);
+    expect(set.delete('a')).toBe(true);
+    expect(set.delete('a')).toBe(false);
+    expect([...set]).toEqual(['b', 'c']);
+
+    const calls: Array<[string, string]> = [];
+    set.forEach((value, key, s) => {
+      expect(s).toBe(set);
+      calls.push([value, key]);
+    });
+    expect(calls).toEqual([
+      ['b', 'b'],
+      ['c', 'c']
+    ]);
+
+    set.clear();
+    expect(set.size).toBe(0);
+    expect(set.has('b')).toBe(false);
+  });
+
+  it('should treat NaN and -0 like a Set does', () => {
+    const set = new LinkedSet([NaN, 0, -0, NaN]);
+    expect(set.size).toBe(2);
+    expect(set.has(NaN)).toBe(true);
+    expect(set.has(-0)).toBe(true);
+  });
+
+  it('should support first, last, shift and pop', () => {
+    const set = new LinkedSet<number>();
+    expect(set.first()).toBeUndefined();
+    expect(set.last()).toBeUndefined();
+    expect(set.shift()).toBeUndefined();
+    expect(set.pop()).toBeUndefined();
+
+    set.add(1).add(2).add(3);
+    expect(set.first()).toBe(1);
+    expect(set.last()).toBe(3);
+    expect(set.shift()).toBe(1);
+    expect(set.pop()).toBe(3);
+    expect(set.has(1)).toBe(false);
+    expect(set.has(3)).toBe(false);
+    expect([...set]).toEqual([2]);
+
+    set.add(1);
+    expect([...set]).toEqual([2, 1]);
+  });
+
+  it('moveToFront should reorder a value', () => {
+    const set = new LinkedSet([1, 2, 3]);
+    expect(set.moveToFront(3)).toBe(true);
+    expect(set.moveToFront(4)).toBe(false);
+    expect([...set]).toEqual([3, 1, 2]);
+  });
+
+  it('insertBefore should add or move a value before an existing one', () => {
+    const set = new LinkedSet(['a', 'c']);
+    expect(set.insertBefore('c', 'b')).toBe(true);
+    expect([...set]).toEqual(['a', 'b', 'c']);
+
+    // Existing values are moved
+    expect(set.insertBefore('a', 'c')).toBe(true);
+    expect([...set]).toEqual(['c', 'a', 'b']);
+
+    // Inserting a value before itself changes nothing
+    expect(set.insertBefore('a', 'a')).toBe(true);
+    expect([...set]).toEqual(['c', 'a', 'b']);
+
+    expect(set.insertBefore('z', 'd')).toBe(false);
+    expect(set.has('d')).toBe(false);
+    expect(set.size).toBe(3);
+  });
+
+  it('should support the set operations with any set-like object', () => {
+    const set = new LinkedSet([3, 1, 2]);
+    const other = new Set([2, 4, 3]);
+
+    expect([...set.union(other)]).toEqual([3, 1, 2, 4]);
+    expect([...set.intersection(other)]).toEqual([3, 2]);
+    expect([...set.difference(other)]).toEqual([1]);
+    expect([...set.symmetricDifference(other)]).toEqual([1, 4]);
+    expect(set.union(other)).toBeInstanceOf(LinkedSet);
+
+    expect(set.isSubsetOf(new Set([1, 2, 3, 4]))).toBe(true);
+    expect(set.isSubsetOf(other)).toBe(false);
+    expect(set.isSubsetOf(new Set([1, 2]))).toBe(false);
+    expect(set.isSupersetOf(new LinkedSet([1, 3]))).toBe(true);
+    expect(set.isSupersetOf(other)).toBe(false);
+    expect(new LinkedSet([1]).isSupersetOf(set)).toBe(false);
+    expect(set.isDisjointFrom(new Set([5, 6]))).toBe(true);
+    expect(set.isDisjointFrom(other)).toBe(false);
+    expect(new LinkedSet([2]).isDisjointFrom(set)).toBe(false);
+    expect(set.isDisjointFrom(new Set([9]))).toBe(true);
+
+    // Maps are set-like by key
+    const map = new LinkedMap([
+      [1, 'one'],
+      [5, 'five']
+    ]);
+    expect([...set.union(map)]).toEqual([3, 1, 2, 5]);
+
+    // The receiver isn't modified
+    expect([...set]).toEqual([3, 1, 2]);
+  });
+
+  it('should reject arguments that are not set-like before using them', () => {
+    const set = new LinkedSet([1, 2]);
+    const has = () => false;
+    const keys = () => [][Symbol.iterator]();
+    const operations = [
+      (other: LinkedSetLike<number>) => set.union(other),
+      (other: LinkedSetLike<number>) => set.intersection(other),
+      (other: LinkedSetLike<number>) => set.difference(other),
+      (other: LinkedSetLike<number>) => set.symmetricDifference(other),
+      (other: LinkedSetLike<number>) => set.isSubsetOf(other),
+      (other: LinkedSetLike<number>) => set.isSupersetOf(other),
+      (other: LinkedSetLike<number>) => set.isDisjointFrom(other)
+    ];
+    for (const operation of operations) {
+      expect(() => operation([1, 2] as unknown as LinkedSetLike<number>)).toThrow(TypeError);
+      expect(() => operation(null as unknown as LinkedSetLike<number>)).toThrow(TypeError);
+      expect(() => operation({ size: NaN, has, keys })).toThrow(TypeError);
+      expect(() => operation({ size: -1, has, keys })).toThrow(RangeError);
+      expect(() => operation({ size: 0, keys } as unknown as LinkedSetLike<number>)).toThrow(TypeError);
+      expect(() => operation({ size: 0, has } as unknown as LinkedSetLike<number>)).toThrow(TypeError);
+      expect(() => operation({ size: 0, has, keys })).not.toThrow();
+    }
+  });
+
+  it('should follow Set rules when modified during iteration', () => {
+    const set = new LinkedSet([1, 2, 3]);
+    const visited: number[] = [];
+    for (const value of set) {
+      visited.push(value);
+      if (value === 1) {
+        set.delete(1);
+        set.delete(2);
+        set.add(4);
+      }
+    }
+    expect(visited).toEqual([1, 3, 4]);
+  });
+});
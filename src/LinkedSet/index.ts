@@ -0,0 +1,459 @@
+import { DoubleLinkedList, type DoubleLinkedListNode, getNodeValue } from '../DoubleLinkedList/index.js';
+
+/**
+ * The minimal set-like shape accepted by the set operations of {@link LinkedSet}, such as `union` and `isSubsetOf`.
+ * `Set`, `LinkedSet` and `Map` (by key) all match it.
+ *
+ * @typeParam ItemT - The type of items in the set-like object
+ */
+export interface LinkedSetLike<ItemT> {
+  readonly size: number;
+  has(value: ItemT): boolean;
+  keys(): Iterator<ItemT>;
+}
+
+/**
+ * A `Set` that keeps its values in a `DoubleLinkedList`, so values can be reordered and removed from either end in O(1).
+ *
+ * `LinkedSet` implements the full `Set` interface, including the ES2025 set operations such as `union` and `isSubsetOf`,
+ * and can be used anywhere a `Set` is expected.  Values are kept in insertion order, except that `moveToFront` and
+ * `insertBefore` reorder them explicitly, and `shift` and `pop` remove values from the ends.  Modifying the set while
+ * iterating over it follows the same rules as `Set`.
+ *
+ * @typeParam ItemT - The type of values stored in the set
+ *
+ * @example A dependency-resolution queue
+ * ```typescript
+ * const queue = new LinkedSet(['app', 'ui', 'core']);
+ * queue.moveToFront('core'); // Resolve 'core' first
+ * queue.add('ui');           // Already queued -- nothing changes
+ * while (queue.size > 0) {
+ *   resolve(queue.shift()!); // 'core', 'app', 'ui'
+ * }
+ * ```
+ */
+export class LinkedSet<ItemT> implements Set<ItemT> {
+  public readonly [Symbol.toStringTag] = 'LinkedSet';
+
+  private readonly list = new DoubleLinkedList<ItemT>();
+  private readonly nodesByValue = new Map<ItemT, DoubleLinkedListNode<ItemT>>();
+
+  /**
+   * Creates a new LinkedSet with optional initial values.
+   *
+   * @param values - Initial values, added in order.  Duplicates keep the position of their first occurrence.
+   *
+   * @example
+   * ```typescript
+   * const set = new LinkedSet(['b', 'a', 'b']);
+   * console.log([...set]); // ['b', 'a']
+   * ```
+   */
+  public constructor(values?: Iterable<ItemT>) {
+    if (values !== undefined) {
+      for (const value of values) {
+        this.add(value);
+      }
+    }
+  }
+
+  /**
+   * The number of values in the set.
+   *
+   * @remarks Time complexity: O(1)
+   */
+  public get size(): number {
+    return this.list.getLength();
+  }
+
+  /**
+   * Checks whether the set contains a value.
+   *
+   * @param value - The value to look up
+   * @returns `true` if the value is present, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public has(value: ItemT): boolean {
+    return this.nodesByValue.has(value);
+  }
+
+  /**
+   * Adds a value at the end of the set.  If the value is already present, it keeps its position.
+   *
+   * @param value - The value to add
+   * @returns This set, for chaining
+   * @remarks Time complexity: O(1)
+   */
+  public add(value: ItemT): this {
+    if (!this.nodesByValue.has(value)) {
+      this.nodesByValue.set(value, this.list.append(value));
+    }
+    return this;
+  }
+
+  /**
+   * Removes a value from the set.
+   *
+   * @param value - The value to remove
+   * @returns `true` if the value was removed, `false` if it wasn't present
+   * @remarks Time complexity: O(1)
+   */
+  public delete(value: ItemT): boolean {
+    const node = this.nodesByValue.get(value);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.list.remove(node);
+    this.nodesByValue.delete(value);
+    return true;
+  }
+
+  /**
+   * Removes all values from the set.
+   *
+   * @remarks Time complexity: O(n)
+   */
+  public clear(): void {
+    this.list.clear();
+    this.nodesByValue.clear();
+  }
+
+  /**
+   * Gets the first value without removing it.
+   *
+   * @returns The first value, or `undefined` if the set is empty
+   * @remarks Time complexity: O(1)
+   */
+  public first(): ItemT | undefined {
+    return getNodeValue(this.list.getHead());
+  }
+
+  /**
+   * Gets the last value without removing it.
+   *
+   * @returns The last value, or `undefined` if the set is empty
+   * @remarks Time complexity: O(1)
+   */
+  public last(): ItemT | undefined {
+    return getNodeValue(this.list.getTail());
+  }
+
+  /**
+   * Removes and returns the first value.
+   *
+   * @returns The removed value, or `undefined` if the set is empty
+   * @remarks Time complexity: O(1)
+   */
+  public shift(): ItemT | undefined {
+    return this.removeNode(this.list.getHead());
+  }
+
+  /**
+   * Removes and returns the last value.
+   *
+   * @returns The removed value, or `undefined` if the set is empty
+   * @remarks Time complexity: O(1)
+   */
+  public pop(): ItemT | undefined {
+    return this.removeNode(this.list.getTail());
+  }
+
+  /**
+   * Moves a value to the front of the set.
+   *
+   * @param value - The value to move
+   * @returns `true` if the value is present, `false` otherwise
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const set = new LinkedSet([1, 2, 3]);
+   * set.moveToFront(3);
+   * console.log([...set]); // [3, 1, 2]
+   * ```
+   */
+  public moveToFront(value: ItemT): boolean {
+    const node = this.nodesByValue.get(value);
+    if (node === undefined) {
+      return false;
+    }
+
+    this.list.moveToFront(node);
+    return true;
+  }
+
+  /**
+   * Places a value immediately before an existing value.  If `value` is already in the set, it's moved there; otherwise it's
+   * added there.
+   *
+   * @param existing - The value to insert before
+   * @param value - The value to insert or move
+   * @returns `true` if `existing` is present, `false` otherwise, in which case nothing is changed
+   * @remarks Time complexity: O(1)
+   *
+   * @example
+   * ```typescript
+   * const set = new LinkedSet(['a', 'c']);
+   * set.insertBefore('c', 'b');
+   * console.log([...set]); // ['a', 'b', 'c']
+   * ```
+   */
+  public insertBefore(existing: ItemT, value: ItemT): boolean {
+    const target = this.nodesByValue.get(existing);
+    if (target === undefined) {
+      return false; // Nothing to do -- there's nothing to insert before
+    }
+
+    const node = this.nodesByValue.get(value);
+    if (node === undefined) {
+      this.nodesByValue.set(value, this.list.insertBeforeNode(target, value)!);
+    } else if (node !== target) {
+      this.list.moveBefore(node, target);
+    }
+    return true;
+  }
+
+  /**
+   * Creates a new set with the values of this set followed by the values of `other` that aren't in this set.
+   *
+   * @typeParam OtherT - The type of values in `other`
+   * @param other - The set-like object to combine with
+   * @returns A new LinkedSet
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(n + m) where m is the size of `other`
+   */
+  public union<OtherT>(other: LinkedSetLike<OtherT>): LinkedSet<ItemT | OtherT> {
+    assertSetLike(other);
+    const result = new LinkedSet<ItemT | OtherT>(this);
+    for (const value of keysOf(other)) {
+      result.add(value);
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new set with the values of this set that are also in `other`, in this set's order.
+   *
+   * @typeParam OtherT - The type of values in `other`
+   * @param other - The set-like object to intersect with
+   * @returns A new LinkedSet
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(n)
+   */
+  public intersection<OtherT>(other: LinkedSetLike<OtherT>): LinkedSet<ItemT & OtherT> {
+    assertSetLike(other);
+    const result = new LinkedSet<ItemT & OtherT>();
+    for (const value of this.list) {
+      if (other.has(value as ItemT & OtherT)) {
+        result.add(value as ItemT & OtherT);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new set with the values of this set that aren't in `other`, in this set's order.
+   *
+   * @param other - The set-like object whose values are excluded
+   * @returns A new LinkedSet
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(n)
+   */
+  public difference(other: LinkedSetLike<unknown>): LinkedSet<ItemT> {
+    assertSetLike(other);
+    const result = new LinkedSet<ItemT>();
+    for (const value of this.list) {
+      if (!other.has(value)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new set with the values that are in exactly one of this set and `other`: first those of this set, then those
+   * of `other`.
+   *
+   * @typeParam OtherT - The type of values in `other`
+   * @param other - The set-like object to compare with
+   * @returns A new LinkedSet
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(n + m) where m is the size of `other`
+   */
+  public symmetricDifference<OtherT>(other: LinkedSetLike<OtherT>): LinkedSet<ItemT | OtherT> {
+    assertSetLike(other);
+    const result: LinkedSet<ItemT | OtherT> = this.difference(other);
+    for (const value of keysOf(other)) {
+      if (!this.has(value as unknown as ItemT)) {
+        result.add(value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether every value of this set is in `other`.
+   *
+   * @param other - The set-like object to compare with
+   * @returns `true` if this set is a subset of `other`, `false` otherwise
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(n)
+   */
+  public isSubsetOf(other: LinkedSetLike<unknown>): boolean {
+    assertSetLike(other);
+    if (this.size > other.size) {
+      return false;
+    }
+
+    for (const value of this.list) {
+      if (!other.has(value)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether every value of `other` is in this set.
+   *
+   * @param other - The set-like object to compare with
+   * @returns `true` if this set is a superset of `other`, `false` otherwise
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(m) where m is the size of `other`
+   */
+  public isSupersetOf(other: LinkedSetLike<unknown>): boolean {
+    assertSetLike(other);
+    if (this.size < other.size) {
+      return false;
+    }
+
+    for (const value of keysOf(other)) {
+      if (!this.has(value as ItemT)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether this set and `other` have no values in common.
+   *
+   * @param other - The set-like object to compare with
+   * @returns `true` if the sets are disjoint, `false` otherwise
+   * @throws `TypeError` if `other` isn't set-like, or `RangeError` if its `size` is negative
+   * @remarks Time complexity: O(min(n, m)) where m is the size of `other`
+   */
+  public isDisjointFrom(other: LinkedSetLike<unknown>): boolean {
+    assertSetLike(other);
+    if (this.size <= other.size) {
+      for (const value of this.list) {
+        if (other.has(value)) {
+          return false;
+        }
+      }
+    } else {
+      for (const value of keysOf(other)) {
+        if (this.has(value as ItemT)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Executes a provided function once for each value, in order.
+   *
+   * @param callback - Function to execute for each value. Receives (value, value, set) as parameters, like `Set`.
+   * @param thisArg - The value to use as `this` when calling `callback`
+   * @remarks Time complexity: O(n)
+   */
+  public forEach(callback: (value: ItemT, key: ItemT, set: LinkedSet<ItemT>) => void, thisArg?: unknown): void {
+    for (const value of this.list) {
+      callback.call(thisArg, value, value, this);
+    }
+  }
+
+  /**
+   * Iterates over `[value, value]` pairs in order, like `Set`.
+   *
+   * @returns An iterator of `[value, value]` pairs
+   */
+  public *entries(): SetIterator<[ItemT, ItemT]> {
+    for (const value of this.list) {
+      yield [value, value];
+    }
+  }
+
+  /**
+   * Iterates over the values in order.
+   * Equivalent to `values()`.
+   *
+   * @returns An iterator of values
+   */
+  public keys(): SetIterator<ItemT> {
+    return this.values();
+  }
+
+  /**
+   * Iterates over the values in order.
+   *
+   * @returns An iterator of values
+   */
+  public *values(): SetIterator<ItemT> {
+    yield* this.list;
+  }
+
+  /**
+   * Makes the set iterable, yielding values in order.
+   * Equivalent to `values()`.
+   *
+   * @returns An iterator of values
+   */
+  public [Symbol.iterator](): SetIterator<ItemT> {
+    return this.values();
+  }
+
+  // Private Methods
+
+  private removeNode(node: DoubleLinkedListNode<ItemT> | undefined): ItemT | undefined {
+    if (node === undefined) {
+      return undefined;
+    }
+
+    const value = getNodeValue(node);
+    this.list.remove(node);
+    this.nodesByValue.delete(value);
+    return value;
+  }
+}
+
+/**
+ * Checks that `other` has the shape of a set-like object before a set operation uses it, the way the `Set` set operations
+ * do, so a bad argument fails up front rather than part way through.
+ */
+function assertSetLike(other: LinkedSetLike<unknown>): void {
+  if (typeof other !== 'object' || other === null) {
+    throw new TypeError('other must be a set-like object');
+  }
+
+  const { size } = other;
+  if (typeof size !== 'number' || Number.isNaN(size)) {
+    throw new TypeError(`other.size must be a number, got ${String(size)}`);
+  } else if (size < 0) {
+    throw new RangeError(`other.size must not be negative, got ${size}`);
+  } else if (typeof other.has !== 'function') {
+    throw new TypeError('other.has must be a function');
+  } else if (typeof other.keys !== 'function') {
+    throw new TypeError('other.keys must be a function');
+  }
+}
+
+/** Iterates over the keys of a set-like object */
+function* keysOf<ItemT>(setLike: LinkedSetLike<ItemT>): Generator<ItemT> {
+  const keys = setLike.keys();
+  for (let result = keys.next(); result.done !== true; result = keys.next()) {
+    yield result.value;
+  }
+}
@@ -0,0 +1,135 @@
+import { getNextNode, getNodeList, getNodeValue, getPreviousNode, setNodeValue } from '../../DoubleLinkedList/index.js';
+import { SortedDoubleLinkedList } from '../index.js';
+
+const ascending = (a: number, b: number) => a - b;
+
+describe('SortedDoubleLinkedList', () => {
+  it('initializing with values should sort them', () => {
+    const list = new SortedDoubleLinkedList(ascending, 5, 1, 4, 2, 3);
+    expect([...list]).toEqual([1, 2, 3, 4, 5]);
+    expect(list.getLength()).toBe(5);
+    expect(list.isEmpty()).toBe(false);
+    expect(getNodeValue(list.getHead())).toBe(1);
+    expect(getNodeValue(list.getTail())).toBe(5);
+    expect(list.get(-2)).toBe(4);
+    expect(getNodeValue(list.getNodeAt(1))).toBe(2);
+  });
+
+  it('should infer the item type from the comparator rather than the initial items', () => {
+    const list = new SortedDoubleLinkedList(ascending, 5, 1, 4);
+    expect(getNodeValue(list.insert(7))).toBe(7);
+    expect([...list]).toEqual([1, 4, 5, 7]);
+  });
+
+  it('should hand out nodes that cannot be used to break the order', () => {
+    const list = new SortedDoubleLinkedList(ascending, 1, 2);
+    const head = list.getHead()!;
+
+    // Only checked by the compiler -- neither call is allowed on a read-only node
+    const breakOrder = () => {
+      // @ts-expect-error -- the underlying list isn't exposed
+      getNodeList(head)?.append(0);
+      // @ts-expect-error -- replacing the value could move it out of order
+      setNodeValue(head, 3);
+    };
+    expect(typeof breakOrder).toBe('function');
+    expect(getNodeValue(getNextNode(head))).toBe(2);
+  });
+
+  it('insert should place items in order and return their nodes', () => {
+    const list = new SortedDoubleLinkedList<number>(ascending);
+    expect(list.isEmpty()).toBe(true);
+
+    const node5 = list.insert(5);
+    const node1 = list.insert(1);
+    const node3 = list.insert(3);
+    const node9 = list.insert(9);
+    expect([...list]).toEqual([1, 3, 5, 9]);
+    expect(getNextNode(node1)).toBe(node3);
+    expect(getNextNode(node3)).toBe(node5);
+    expect(getPreviousNode(node9)).toBe(node5);
+    expect(list.getHead()).toBe(node1);
+    expect(list.getTail()).toBe(node9);
+  });
+
+  it('insert should be stable for equal items', () => {
+    const list = new SortedDoubleLinkedList<{ priority: number; id: string }>((a, b) => a.priority - b.priority);
+    list.insert({ priority: 2, id: 'a' });
+    list.insert({ priority: 1, id: 'b' });
+    list.insert({ priority: 2, id: 'c' });
+    list.insert({ priority: 1, id: 'd' });
+    expect(list.toArray().map((item) => item.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('insertWithHint should walk in either direction from the hint', () => {
+    const list = new SortedDoubleLinkedList(ascending, 10, 20, 30, 40);
+    const node20 = list.getNodeAt(1)!;
+
+    const node35 = list.insertWithHint(node20, 35);
+    expect([...list]).toEqual([10, 20, 30, 35, 40]);
+    expect(getPreviousNode(node35)).toBe(list.getNodeAt(2));
+
+    const node5 = list.insertWithHint(node35, 5);
+    expect([...list]).toEqual([5, 10, 20, 30, 35, 40]);
+    expect(list.getHead()).toBe(node5);
+
+    const node50 = list.insertWithHint(node5, 50);
+    expect(list.getTail()).toBe(node50);
+
+    // Equal items still go after existing ones
+    const node20b = list.insertWithHint(list.getTail()!, 20);
+    expect(getPreviousNode(node20b)).toBe(node20);
+    expect([...list]).toEqual([5, 10, 20, 20, 30, 35, 40, 50]);
+  });
+
+  it('insertWithHint should fall back to insert for foreign hints', () => {
+    const list = new SortedDoubleLinkedList(ascending, 1, 3);
+    const other = new SortedDoubleLinkedList(ascending, 100);
+    list.insertWithHint(other.getHead()!, 2);
+    expect([...list]).toEqual([1, 2, 3]);
+    expect([...other]).toEqual([100]);
+  });
+
+  it('lowerBound and upperBound should find the bounding nodes', () => {
+    const list = new SortedDoubleLinkedList(ascending, 1, 2, 2, 3);
+    const nodes = [0, 1, 2, 3].map((index) => list.getNodeAt(index));
+
+    expect(list.lowerBound(2)).toBe(nodes[1]);
+    expect(list.upperBound(2)).toBe(nodes[3]);
+    expect(list.lowerBound(0)).toBe(nodes[0]);
+    expect(list.upperBound(0)).toBe(nodes[0]);
+    expect(list.lowerBound(2.5)).toBe(nodes[3]);
+    expect(list.lowerBound(4)).toBeUndefined();
+    expect(list.upperBound(3)).toBeUndefined();
+  });
+
+  it('removeFirst, removeLast and remove should work', () => {
+    const list = new SortedDoubleLinkedList(ascending, 3, 1, 2, 4);
+    expect(list.removeFirst()).toBe(1);
+    expect(list.removeLast()).toBe(4);
+    expect([...list]).toEqual([2, 3]);
+
+    const other = new SortedDoubleLinkedList(ascending, 2);
+    expect(list.remove(other.getHead()!)).toBe(false);
+    expect(list.remove(list.getHead()!)).toBe(true);
+    expect([...list]).toEqual([3]);
+
+    list.clear();
+    expect(list.removeFirst()).toBeUndefined();
+    expect(list.removeLast()).toBeUndefined();
+  });
+
+  it('forEach should visit items in order', () => {
+    const list = new SortedDoubleLinkedList(ascending, 3, 1, 2);
+    const visited: Array<[number, number]> = [];
+    list.forEach((value, index, owner) => {
+      expect(owner).toBe(list);
+      visited.push([value, index]);
+    });
+    expect(visited).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 2]
+    ]);
+  });
+});
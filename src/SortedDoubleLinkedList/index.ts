@@ -0,0 +1,331 @@
+import {
+  DoubleLinkedList,
+  type DoubleLinkedListNode,
+  getNextNode,
+  getNodeList,
+  getNodeValue,
+  getPreviousNode,
+  type ReadonlyDoubleLinkedListNode
+} from '../DoubleLinkedList/index.js';
+
+/**
+ * A doubly linked list that keeps its items ordered according to a comparator.
+ *
+ * Items are stored in the same node tuples used by `DoubleLinkedList`, so `getNodeValue`, `getNextNode` and
+ * `getPreviousNode` work on the nodes it returns.  The nodes are handed out as `ReadonlyDoubleLinkedListNode`s, so they can't
+ * be used to reach the underlying list or replace values, either of which could break the order.  Insertion is stable: an
+ * item that compares equal to existing items is placed after them.
+ *
+ * @typeParam ItemT - The type of items stored in the list
+ *
+ * @example Basic usage
+ * ```typescript
+ * const timers = new SortedDoubleLinkedList<number>((a, b) => a - b);
+ * timers.insert(300);
+ * timers.insert(100);
+ * timers.insert(200);
+ * console.log([...timers]);         // [100, 200, 300]
+ * console.log(timers.removeFirst()); // 100
+ * ```
+ *
+ * @example Near-sorted streams
+ * ```typescript
+ * const list = new SortedDoubleLinkedList<number>((a, b) => a - b);
+ * let last = list.insert(1);
+ * for (const value of [2, 4, 3, 5]) {
+ *   last = list.insertWithHint(last, value); // Only walks a few nodes per insert
+ * }
+ * ```
+ */
+export class SortedDoubleLinkedList<ItemT> {
+  private readonly compare: (a: ItemT, b: ItemT) => number;
+  private readonly list = new DoubleLinkedList<ItemT>();
+
+  /**
+   * Creates a new SortedDoubleLinkedList with optional initial items.
+   *
+   * @param compare - Function defining the order.  Should return a negative number if `a` comes before `b`, a positive number
+   * if `a` comes after `b`, or zero if they're equivalent.
+   * @param items - Initial items to insert, in any order.  They don't take part in inferring `ItemT`, which comes from
+   * `compare`, so that a list of numbers isn't narrowed to the literal types of its initial items.
+   *
+   * @example
+   * ```typescript
+   * const list = new SortedDoubleLinkedList<string>((a, b) => a.localeCompare(b), 'c', 'a', 'b');
+   * console.log([...list]); // ['a', 'b', 'c']
+   * ```
+   */
+  public constructor(compare: (a: ItemT, b: ItemT) => number, ...items: Array<NoInfer<ItemT>>) {
+    this.compare = compare;
+
+    if (items.length > 0) {
+      for (const item of items) {
+        this.list.append(item);
+      }
+      this.list.sort(compare);
+    }
+  }
+
+  /**
+   * Gets the number of items in the list.
+   *
+   * @returns The number of items in the list
+   * @remarks Time complexity: O(1)
+   */
+  public getLength(): number {
+    return this.list.getLength();
+  }
+
+  /**
+   * Checks if the list is empty.
+   *
+   * @returns `true` if the list has no items, `false` otherwise
+   * @remarks Time complexity: O(1)
+   */
+  public isEmpty(): boolean {
+    return this.list.isEmpty();
+  }
+
+  /**
+   * Gets the first node in the list, which holds the smallest item.
+   *
+   * @returns The first node, or `undefined` if the list is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getHead(): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getHead();
+  }
+
+  /**
+   * Gets the last node in the list, which holds the largest item.
+   *
+   * @returns The last node, or `undefined` if the list is empty
+   * @remarks Time complexity: O(1)
+   */
+  public getTail(): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getTail();
+  }
+
+  /**
+   * Gets the item at the specified index.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the item to retrieve (supports negative indices)
+   * @returns The item at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index
+   */
+  public get(index: number): ItemT | undefined {
+    return this.list.get(index);
+  }
+
+  /**
+   * Gets the node at the specified index.
+   * Supports negative indices to access from the end.
+   *
+   * @param index - The zero-based index of the node to retrieve (supports negative indices)
+   * @returns The node at the specified index, or `undefined` if index is out of bounds
+   * @remarks Time complexity: O(n) where n is the distance to the index
+   */
+  public getNodeAt(index: number): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    return this.list.getNodeAt(index);
+  }
+
+  /**
+   * Inserts an item at its sorted position, after any items that compare equal to it.
+   * The search starts from the tail, so inserting items in roughly ascending order is fast.
+   *
+   * @param item - The item to insert
+   * @returns The newly created node
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the number of larger items
+   *
+   * @example
+   * ```typescript
+   * const list = new SortedDoubleLinkedList<number>((a, b) => a - b, 1, 3);
+   * const node = list.insert(2);
+   * console.log(getNodeValue(getNextNode(node))); // 3
+   * ```
+   */
+  public insert(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> {
+    const tail = this.list.getTail();
+    if (tail === undefined) {
+      return this.list.append(item);
+    }
+
+    return this.insertFrom(tail, item);
+  }
+
+  /**
+   * Inserts an item at its sorted position, starting the search from a hint node and walking in whichever direction is
+   * needed.  When the hint is close to the final position, such as the previously inserted node of a near-sorted stream,
+   * only a few nodes are visited.
+   *
+   * @param hint - A node of this list to start searching from.  If it doesn't belong to this list, this behaves like `insert`.
+   * @param item - The item to insert
+   * @returns The newly created node
+   * @remarks Time complexity: O(k) where k is the distance between the hint and the sorted position
+   *
+   * @example
+   * ```typescript
+   * const list = new SortedDoubleLinkedList<number>((a, b) => a - b);
+   * let node = list.insert(10);
+   * node = list.insertWithHint(node, 12);
+   * node = list.insertWithHint(node, 11);
+   * console.log([...list]); // [10, 11, 12]
+   * ```
+   */
+  public insertWithHint(hint: ReadonlyDoubleLinkedListNode<ItemT>, item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> {
+    const start = this.toOwnNode(hint);
+    if (start === undefined) {
+      return this.insert(item);
+    }
+
+    return this.insertFrom(start, item);
+  }
+
+  /**
+   * Finds the first node whose item is not less than the given item.
+   *
+   * @param item - The item to compare against
+   * @returns The first node whose item compares greater than or equal to `item`, or `undefined` if there is none
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found node
+   *
+   * @example
+   * ```typescript
+   * const list = new SortedDoubleLinkedList<number>((a, b) => a - b, 1, 2, 2, 3);
+   * console.log(getNodeValue(list.lowerBound(2))); // 2 (the first 2)
+   * ```
+   */
+  public lowerBound(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    let cursor = this.list.getHead();
+    while (cursor !== undefined && this.compare(getNodeValue(cursor), item) < 0) {
+      cursor = getNextNode(cursor);
+    }
+    return cursor;
+  }
+
+  /**
+   * Finds the first node whose item is greater than the given item.
+   *
+   * @param item - The item to compare against
+   * @returns The first node whose item compares greater than `item`, or `undefined` if there is none
+   * @remarks Time complexity: O(n) in worst case, O(k) where k is the position of the found node
+   *
+   * @example
+   * ```typescript
+   * const list = new SortedDoubleLinkedList<number>((a, b) => a - b, 1, 2, 2, 3);
+   * console.log(getNodeValue(list.upperBound(2))); // 3
+   * ```
+   */
+  public upperBound(item: ItemT): ReadonlyDoubleLinkedListNode<ItemT> | undefined {
+    let cursor = this.list.getHead();
+    while (cursor !== undefined && this.compare(getNodeValue(cursor), item) <= 0) {
+      cursor = getNextNode(cursor);
+    }
+    return cursor;
+  }
+
+  /**
+   * Removes and returns the first (smallest) item.
+   *
+   * @returns The first item, or `undefined` if the list is empty
+   * @remarks Time complexity: O(1)
+   */
+  public removeFirst(): ItemT | undefined {
+    return this.list.shift();
+  }
+
+  /**
+   * Removes and returns the last (largest) item.
+   *
+   * @returns The last item, or `undefined` if the list is empty
+   * @remarks Time complexity: O(1)
+   */
+  public removeLast(): ItemT | undefined {
+    return this.list.pop();
+  }
+
+  /**
+   * Removes a specific node from the list.
+   *
+   * @param node - The node to remove
+   * @returns `true` if the node was removed, `false` if it doesn't belong to this list
+   * @remarks Time complexity: O(1)
+   */
+  public remove(node: ReadonlyDoubleLinkedListNode<ItemT>): boolean {
+    const ownNode = this.toOwnNode(node);
+    if (ownNode === undefined) {
+      return false; // Nothing to do -- wrong list
+    }
+
+    return this.list.remove(ownNode);
+  }
+
+  /**
+   * Removes all items from the list, making it empty.
+   *
+   * @remarks Time complexity: O(n) where n is the number of items
+   */
+  public clear(): void {
+    this.list.clear();
+  }
+
+  /**
+   * Converts the list to a readonly array, in sorted order.
+   *
+   * @returns A readonly array containing all items in the list
+   * @remarks Time complexity: O(n)
+   */
+  public toArray(): Readonly<ItemT[]> {
+    return this.list.toArray();
+  }
+
+  /**
+   * Executes a provided function once for each item in the list, in sorted order.
+   *
+   * @param callback - Function to execute for each item. Receives (value, index, list) as parameters.
+   * @remarks Time complexity: O(n)
+   */
+  public forEach(callback: (value: ItemT, index: number, list: SortedDoubleLinkedList<ItemT>) => void): void {
+    this.list.forEach((value, index) => callback(value, index, this));
+  }
+
+  /**
+   * Makes the list iterable, yielding each item in sorted order.
+   *
+   * @returns An iterator that yields each item in the list from smallest to largest
+   */
+  public [Symbol.iterator](): Iterator<ItemT> {
+    return this.list[Symbol.iterator]();
+  }
+
+  // Private Methods
+
+  /** Recovers the writable node behind a handle given out by this list, or `undefined` if it belongs to another list */
+  private toOwnNode(node: ReadonlyDoubleLinkedListNode<ItemT>): DoubleLinkedListNode<ItemT> | undefined {
+    const ownNode = node as DoubleLinkedListNode<ItemT>;
+    return getNodeList(ownNode) === this.list ? ownNode : undefined;
+  }
+
+  /** Inserts an item at its sorted position, walking from `start`, which must belong to this list */
+  private insertFrom(start: DoubleLinkedListNode<ItemT>, item: ItemT): DoubleLinkedListNode<ItemT> {
+    let cursor = start;
+
+    if (this.compare(getNodeValue(cursor), item) > 0) {
+      // Walk backward to the first node that is greater than the item
+      let prev = getPreviousNode(cursor);
+      while (prev !== undefined && this.compare(getNodeValue(prev), item) > 0) {
+        cursor = prev;
+        prev = getPreviousNode(cursor);
+      }
+      return this.list.insertBeforeNode(cursor, item)!;
+    } else {
+      // Walk forward to the last node that isn't greater than the item
+      let next = getNextNode(cursor);
+      while (next !== undefined && this.compare(getNodeValue(next), item) <= 0) {
+        cursor = next;
+        next = getNextNode(cursor);
+      }
+      return this.list.insertAfterNode(cursor, item)!;
+    }
+  }
+}
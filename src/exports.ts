@@ -1 +1,7 @@
+export * from './BoundedDeque/index.js';
 export * from './DoubleLinkedList/index.js';
+export * from './LFUCache/index.js';
+export * from './LinkedMap/index.js';
+export * from './LinkedSet/index.js';
+export * from './LRUCache/index.js';
+export * from './SortedDoubleLinkedList/index.js';